@@ -1,51 +1,254 @@
 /**
  * @fileoverview Simple DuckDB connection manager using @duckdb/node-api
  *
- * Each store instance gets its own connection. Uses the modern Promise-based API.
+ * Stores opening the same database file share one reference-counted instance and each
+ * get their own connection from it. In-memory databases (':memory:') are never shared: every
+ * connection gets its own instance. Uses the modern Promise-based API.
  */
 
+import path from 'node:path';
 import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import { DatabaseLockedError, EncryptionKeyError } from './errors.ts';
+import { quoteLiteral } from './sql.ts';
 
-interface ConnectionInfo {
+interface InstanceInfo {
+  key: string;
   instance: DuckDBInstance;
-  connection: DuckDBConnection;
   encrypted: boolean;
+  /** Opened with access_mode READ_ONLY; checkpoints are skipped */
+  readOnly: boolean;
+  /** Removed from the pool after a fatal error; closed when its last connection is released */
+  discarded: boolean;
+  refCount: number;
+  /** Promise chain serializing catalog changes across the instance's connections */
+  exclusiveQueue: Promise<void>;
+}
+
+interface ConnectionInfo {
+  instanceInfo: InstanceInfo;
+  connection: DuckDBConnection;
+}
+
+/**
+ * How to acquire a database file that another process has locked
+ */
+export interface LockStrategy {
+  /** Keep retrying a locked file for this many milliseconds. Default: 0 (fail immediately) */
+  timeout?: number;
+  /** Delay before the first retry in milliseconds; doubles after each attempt. Default: 25 */
+  retryDelay?: number;
+  /** Upper bound for the retry delay in milliseconds. Default: 1000 */
+  maxRetryDelay?: number;
+  /** Open the file read-only instead of failing once retries are exhausted. Default: false */
+  fallbackToReadOnly?: boolean;
+}
+
+/**
+ * Options for opening a connection
+ */
+export interface ConnectionOptions {
+  /** Open the database read-only so several processes can share it. Default: false */
+  readOnly?: boolean;
+  /** Retry and fallback behaviour when the file is locked by another process */
+  lock?: LockStrategy;
+}
+
+/**
+ * Connection and instance counts reported by getConnectionCount()
+ */
+export interface ConnectionCounts {
+  /** Number of open DuckDB instances (one per database path and encryption key) */
+  instances: number;
+  /** Number of open connections across all instances */
+  connections: number;
 }
 
+/** Path that opens a database in memory instead of a file */
+export const MEMORY_PATH = ':memory:';
+
+/** Open (or opening) instances by path and encryption key; promises let concurrent callers share one create */
+const instances = new Map<string, Promise<InstanceInfo>>();
 const connections = new Set<ConnectionInfo>();
+/** Counter giving each private in-memory instance a distinct key */
+let memoryInstanceCounter = 0;
 
 /**
- * Create a new connection for the given database path and optional encryption key
- * Each call creates a separate connection instance
+ * Check if a path opens an in-memory database rather than a file
+ */
+export function isMemoryPath(dbPath: string): boolean {
+  return dbPath === MEMORY_PATH;
+}
+
+/**
+ * Map DuckDB errors raised while opening a database to typed errors
+ * (file locks and missing, wrong or unexpected encryption keys); other errors pass through
+ */
+function mapOpenError(err: unknown, dbPath: string): unknown {
+  const message = (err as Error)?.message ?? '';
+  if (/could not set lock on file/i.test(message)) return new DatabaseLockedError(`database ${dbPath} is locked by another process`, { cause: err });
+  if (/wrong encryption key/i.test(message)) return new EncryptionKeyError(`encryption key does not match database ${dbPath}`, { cause: err });
+  if (/encrypted database .* without a key/i.test(message)) return new EncryptionKeyError(`database ${dbPath} is encrypted; an encryption key is required`, { cause: err });
+  if (/key is explicitly specified, but database .* is not encrypted/i.test(message)) return new EncryptionKeyError(`database ${dbPath} is not encrypted`, { cause: err });
+  return err;
+}
+
+/**
+ * Build the pool key for a database path, access mode and optional encryption key
+ * Keys start with the resolved path so isDatabaseOpen() can match by prefix
+ */
+function instanceKey(dbPath: string, encryptionKey: string | undefined, readOnly: boolean): string {
+  return `${path.resolve(dbPath)}\0${readOnly ? 'r' : 'w'}\0${encryptionKey ?? ''}`;
+}
+
+/**
+ * Create an instance for the given database path and optional encryption key
  *
  * For unencrypted databases: opens the file directly
  * For encrypted databases: uses in-memory instance with ATTACH (required by DuckDB)
+ * Both work for ':memory:', which then holds the data in memory only
  */
-export async function getConnection(dbPath: string, encryptionKey?: string): Promise<DuckDBConnection> {
-  let instance: DuckDBInstance;
-  let encrypted = false;
-
-  if (encryptionKey) {
-    // Encrypted: must use in-memory + ATTACH pattern
-    instance = await DuckDBInstance.create(':memory:');
-    encrypted = true;
-  } else {
+async function createInstance(key: string, dbPath: string, encryptionKey: string | undefined, readOnly: boolean): Promise<InstanceInfo> {
+  if (!encryptionKey) {
     // Unencrypted: open file directly for proper persistence
-    instance = await DuckDBInstance.create(dbPath);
+    let instance: DuckDBInstance;
+    try {
+      instance = await DuckDBInstance.create(dbPath, readOnly ? { access_mode: 'READ_ONLY' } : undefined);
+    } catch (err) {
+      throw mapOpenError(err, dbPath);
+    }
+    return { key, instance, encrypted: false, readOnly, discarded: false, refCount: 0, exclusiveQueue: Promise.resolve() };
   }
 
+  // Encrypted: must use in-memory + ATTACH pattern
+  const instance = await DuckDBInstance.create(':memory:');
   const connection = await instance.connect();
+  try {
+    // Attach the file database with encryption; the attachment is visible to every connection on the instance
+    // ATTACH does not accept parameters, so the path and key are quoted as literals
+    await connection.run(`ATTACH ${quoteLiteral(dbPath)} AS store (${readOnly ? 'READ_ONLY, ' : ''}ENCRYPTION_KEY ${quoteLiteral(encryptionKey)})`);
+  } catch (err) {
+    instance.closeSync();
+    throw mapOpenError(err, dbPath);
+  } finally {
+    connection.closeSync();
+  }
+  return { key, instance, encrypted: true, readOnly, discarded: false, refCount: 0, exclusiveQueue: Promise.resolve() };
+}
+
+/**
+ * Create an instance, retrying with exponential backoff while the file is locked by another process
+ */
+async function createInstanceWithRetry(key: string, dbPath: string, encryptionKey: string | undefined, readOnly: boolean, lock: LockStrategy): Promise<InstanceInfo> {
+  const timeout = lock.timeout ?? 0;
+  const maxRetryDelay = lock.maxRetryDelay ?? 1000;
+  const deadline = Date.now() + timeout;
+  let delay = lock.retryDelay ?? 25;
+  for (;;) {
+    try {
+      return await createInstance(key, dbPath, encryptionKey, readOnly);
+    } catch (err) {
+      if (!(err instanceof DatabaseLockedError)) throw err;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        if (timeout <= 0) throw err;
+        throw new DatabaseLockedError(`${err.message} (gave up after ${timeout}ms)`, { cause: err.cause });
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(delay, remaining)));
+      delay = Math.min(delay * 2, maxRetryDelay);
+    }
+  }
+}
+
+/**
+ * Get or create the shared instance for a database path and encryption key
+ * Read-only requests reuse the write instance for the same path and key when this process has one
+ */
+async function acquireInstance(dbPath: string, encryptionKey: string | undefined, readOnly: boolean, lock: LockStrategy): Promise<InstanceInfo> {
+  if (isMemoryPath(dbPath)) {
+    // Not pooled: another store opening ':memory:' must not see this store's data
+    const info = await createInstance(`${MEMORY_PATH}\0${++memoryInstanceCounter}`, dbPath, encryptionKey, readOnly);
+    info.refCount++;
+    return info;
+  }
+
+  // A second, read-only instance on a file this process writes would not see the writer's changes;
+  // readers share the write instance instead and the store rejects their writes
+  const writer = readOnly ? instances.get(instanceKey(dbPath, encryptionKey, false)) : undefined;
+  if (writer) {
+    const info = await writer.catch(() => undefined);
+    if (info) {
+      info.refCount++;
+      return info;
+    }
+  }
+
+  const key = instanceKey(dbPath, encryptionKey, readOnly);
+  let pending = instances.get(key);
+  if (!pending) {
+    pending = createInstanceWithRetry(key, dbPath, encryptionKey, readOnly, lock);
+    instances.set(key, pending);
+    // Forget failed creations so a later call can retry
+    pending.catch(() => {
+      if (instances.get(key) === pending) instances.delete(key);
+    });
+  }
+  const info = await pending;
+  info.refCount++;
+  return info;
+}
 
-  if (encryptionKey) {
-    // Attach the file database with encryption
-    const attachCommand = `ATTACH '${dbPath}' AS store (ENCRYPTION_KEY '${encryptionKey}')`;
-    await connection.run(attachCommand);
+/**
+ * Checkpoint and close an instance once no connections reference it
+ */
+async function closeInstance(info: InstanceInfo, onError?: (error: unknown) => void): Promise<void> {
+  // A discarded instance is no longer in the pool; its key may already belong to a fresh instance
+  if (!info.discarded) instances.delete(info.key);
+  if (info.encrypted) {
+    try {
+      // For encrypted instances, checkpoint and detach the attached database
+      const connection = await info.instance.connect();
+      try {
+        if (!info.readOnly) await connection.run('CHECKPOINT store');
+        await connection.run('DETACH store');
+      } finally {
+        connection.closeSync();
+      }
+    } catch (err) {
+      // Cleanup continues regardless; the caller decides whether to surface the failure
+      onError?.(err);
+    }
+  }
+  // Close the instance to release file locks
+  info.instance.closeSync();
+}
+
+/**
+ * Create a new connection for the given database path and optional encryption key
+ * Each call creates a separate connection on the instance shared by that path and key
+ */
+export async function getConnection(dbPath: string, encryptionKey?: string, options: ConnectionOptions = {}): Promise<DuckDBConnection> {
+  const readOnly = options.readOnly ?? false;
+  const lock = options.lock ?? {};
+  let instanceInfo: InstanceInfo;
+  try {
+    instanceInfo = await acquireInstance(dbPath, encryptionKey, readOnly, lock);
+  } catch (err) {
+    // Readers share the file with each other, so a read-only open can succeed where a write lock cannot
+    if (!(err instanceof DatabaseLockedError) || readOnly || !lock.fallbackToReadOnly) throw err;
+    instanceInfo = await acquireInstance(dbPath, encryptionKey, true, {});
+  }
+
+  let connection: DuckDBConnection;
+  try {
+    connection = await instanceInfo.instance.connect();
+  } catch (err) {
+    if (--instanceInfo.refCount === 0) await closeInstance(instanceInfo);
+    throw err;
   }
 
   const connectionInfo: ConnectionInfo = {
-    instance,
+    instanceInfo,
     connection,
-    encrypted,
   };
 
   connections.add(connectionInfo);
@@ -58,48 +261,189 @@ export async function getConnection(dbPath: string, encryptionKey?: string): Pro
 export function isEncryptedConnection(connection: DuckDBConnection): boolean {
   for (const info of connections) {
     if (info.connection === connection) {
-      return info.encrypted;
+      return info.instanceInfo.encrypted;
     }
   }
   return false;
 }
 
+/**
+ * Check if a connection was opened read-only (requested, or as a lock fallback)
+ */
+export function isReadOnlyConnection(connection: DuckDBConnection): boolean {
+  for (const info of connections) {
+    if (info.connection === connection) {
+      return info.instanceInfo.readOnly;
+    }
+  }
+  return false;
+}
+
+/**
+ * Run an operation exclusively among all connections sharing this connection's instance
+ * Used for catalog changes (e.g. schema creation) that conflict when run concurrently from several connections
+ */
+export function runExclusive<T>(connection: DuckDBConnection, operation: () => Promise<T>): Promise<T> {
+  for (const info of connections) {
+    if (info.connection === connection) {
+      const instanceInfo = info.instanceInfo;
+      const result = instanceInfo.exclusiveQueue.then(operation, operation);
+      instanceInfo.exclusiveQueue = result.then(
+        () => {},
+        () => {}
+      );
+      return result;
+    }
+  }
+  return operation();
+}
+
 /**
  * Remove and close a specific connection
  * Should be called when a store instance is disposed
+ * The shared instance is closed when its last connection is released
  * Returns a promise that resolves when the connection is fully closed
+ * Checkpoint failures do not stop the release; they are passed to onError if given
  */
-export async function releaseConnection(connection: DuckDBConnection): Promise<void> {
+export async function releaseConnection(connection: DuckDBConnection, onError?: (error: unknown) => void): Promise<void> {
   for (const info of connections) {
     if (info.connection === connection) {
       connections.delete(info);
 
       try {
-        if (info.encrypted) {
-          // For encrypted connections, checkpoint and detach the attached database
-          await connection.run('CHECKPOINT store');
-          await connection.run('DETACH store');
-        } else {
-          // For unencrypted connections, checkpoint the main database to flush data
-          await connection.run('CHECKPOINT');
-        }
+        // Checkpoint to flush data written through this connection
+        if (!info.instanceInfo.readOnly) await connection.run(info.instanceInfo.encrypted ? 'CHECKPOINT store' : 'CHECKPOINT');
+      } catch (err) {
+        onError?.(err);
+      }
+
+      connection.closeSync();
+      if (--info.instanceInfo.refCount === 0) await closeInstance(info.instanceInfo, onError);
+      return;
+    }
+  }
+}
+
+/**
+ * Check if an error means the connection or its database is unusable (closed, or invalidated by a fatal error)
+ * rather than a failure of the statement itself
+ */
+export function isFatalError(err: unknown): boolean {
+  const message = (err as Error)?.message ?? '';
+  return /FATAL Error|database has been invalidated|connection disconnected|connection (was never established|has been closed)/i.test(message);
+}
+
+/**
+ * Check if an error means a concurrent writer on another connection got to the same row first:
+ * a transaction conflict, or a primary key violation raised for a row it committed in the meantime
+ */
+export function isConflictError(err: unknown): boolean {
+  const message = (err as Error)?.message ?? '';
+  return /Conflict on (tuple|update)|write-write conflict|PRIMARY KEY or UNIQUE constraint violation|Duplicate key .* violates primary key constraint/i.test(message);
+}
+
+/**
+ * Release a connection that failed with a fatal error
+ * Its instance is removed from the pool so the next getConnection() opens a fresh one; the broken
+ * instance is closed once its last connection is released. Cleanup errors are ignored.
+ */
+export async function discardConnection(connection: DuckDBConnection): Promise<void> {
+  for (const info of connections) {
+    if (info.connection === connection) {
+      connections.delete(info);
+      const instanceInfo = info.instanceInfo;
+      if (!instanceInfo.discarded) {
+        instanceInfo.discarded = true;
+        const pending = instances.get(instanceInfo.key);
+        if (pending && (await pending.catch(() => undefined)) === instanceInfo && instances.get(instanceInfo.key) === pending) instances.delete(instanceInfo.key);
+      }
+      try {
+        connection.closeSync();
       } catch {
         // Ignore cleanup errors
       }
+      if (--instanceInfo.refCount === 0) await closeInstance(instanceInfo);
+      return;
+    }
+  }
+}
 
-      // Close the connection, then the instance to release file locks
+/**
+ * Open a database file read-only on a throwaway instance to check it is a readable DuckDB
+ * database (and that the encryption key matches). Throws the DuckDB error if not.
+ */
+export async function validateDatabase(dbPath: string, encryptionKey?: string): Promise<void> {
+  const instance = await DuckDBInstance.create(':memory:');
+  try {
+    const connection = await instance.connect();
+    try {
+      const keyOption = encryptionKey ? `, ENCRYPTION_KEY ${quoteLiteral(encryptionKey)}` : '';
+      try {
+        await connection.run(`ATTACH ${quoteLiteral(dbPath)} AS validate (READ_ONLY${keyOption})`);
+      } catch (err) {
+        throw mapOpenError(err, dbPath);
+      }
+      await connection.run(`SELECT COUNT(*) FROM duckdb_tables() WHERE database_name = 'validate'`);
+      await connection.run('DETACH validate');
+    } finally {
       connection.closeSync();
-      info.instance.closeSync();
-      return;
     }
+  } finally {
+    instance.closeSync();
   }
 }
 
+/**
+ * Copy every table from one database file into a new one on a throwaway instance,
+ * reading the source with `sourceKey` and writing the destination with `destKey` (either may be omitted)
+ */
+export async function copyDatabase(sourcePath: string, sourceKey: string | undefined, destPath: string, destKey: string | undefined): Promise<void> {
+  const instance = await DuckDBInstance.create(':memory:');
+  try {
+    const connection = await instance.connect();
+    try {
+      const sourceOption = sourceKey ? `, ENCRYPTION_KEY ${quoteLiteral(sourceKey)}` : '';
+      const destOption = destKey ? ` (ENCRYPTION_KEY ${quoteLiteral(destKey)})` : '';
+      try {
+        await connection.run(`ATTACH ${quoteLiteral(sourcePath)} AS source (READ_ONLY${sourceOption})`);
+      } catch (err) {
+        throw mapOpenError(err, sourcePath);
+      }
+      await connection.run(`ATTACH ${quoteLiteral(destPath)} AS dest${destOption}`);
+      await connection.run('COPY FROM DATABASE source TO dest');
+      await connection.run('CHECKPOINT dest');
+      await connection.run('DETACH dest');
+      await connection.run('DETACH source');
+    } finally {
+      connection.closeSync();
+    }
+  } finally {
+    instance.closeSync();
+  }
+}
+
+/**
+ * Check if any store currently holds an instance for the given database path
+ */
+export function isDatabaseOpen(dbPath: string): boolean {
+  const prefix = `${path.resolve(dbPath)}\0`;
+  for (const key of instances.keys()) {
+    if (key.startsWith(prefix)) return true;
+  }
+  return false;
+}
+
 /**
  * Get current connection count for testing/debugging
+ * Pass `true` to get separate counts of shared instances and connections
  */
-export function getConnectionCount(): number {
-  return connections.size;
+export function getConnectionCount(): number;
+export function getConnectionCount(detailed: true): ConnectionCounts;
+export function getConnectionCount(detailed?: boolean): number | ConnectionCounts {
+  if (!detailed) return connections.size;
+  const open = new Set<InstanceInfo>();
+  for (const info of connections) open.add(info.instanceInfo);
+  return { instances: open.size, connections: connections.size };
 }
 
 /**
@@ -107,25 +451,22 @@ export function getConnectionCount(): number {
  * WARNING: This will break any active stores using these connections
  */
 export async function closeAllConnections(): Promise<void> {
-  const closePromises: Promise<void>[] = [];
+  const open = new Set<InstanceInfo>();
   for (const info of connections) {
-    closePromises.push(
-      (async () => {
-        try {
-          if (info.encrypted) {
-            await info.connection.run('CHECKPOINT store');
-            await info.connection.run('DETACH store');
-          } else {
-            await info.connection.run('CHECKPOINT');
-          }
-        } catch {
-          // Ignore cleanup errors
-        }
-        info.connection.closeSync();
-        info.instance.closeSync();
-      })()
-    );
+    try {
+      if (!info.instanceInfo.readOnly) await info.connection.run(info.instanceInfo.encrypted ? 'CHECKPOINT store' : 'CHECKPOINT');
+    } catch {
+      // Ignore cleanup errors
+    }
+    info.connection.closeSync();
+    open.add(info.instanceInfo);
   }
   connections.clear();
+
+  const closePromises: Promise<void>[] = [];
+  for (const info of open) {
+    info.refCount = 0;
+    closePromises.push(closeInstance(info));
+  }
   await Promise.all(closePromises);
 }
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Error classes thrown by keyv-duckdb
+ *
+ * Every error carries a stable `code` so callers can branch without matching messages.
+ */
+
+/**
+ * Base class for all keyv-duckdb errors
+ */
+export class KeyvDuckDBError extends Error {
+  code: string;
+
+  constructor(message: string, code: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'KeyvDuckDBError';
+    this.code = code;
+  }
+}
+
+/**
+ * The encryption key is missing, empty, or does not match the database file
+ */
+export class EncryptionKeyError extends KeyvDuckDBError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 'ERR_KEYV_DUCKDB_ENCRYPTION_KEY', options);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+/**
+ * The store was used after dispose()
+ */
+export class KeyvDuckDBDisposedError extends KeyvDuckDBError {
+  constructor(message = 'KeyvDuckDB has been disposed and cannot be used') {
+    super(message, 'ERR_KEYV_DUCKDB_DISPOSED');
+    this.name = 'KeyvDuckDBDisposedError';
+  }
+}
+
+/**
+ * A key, prefix or list of keys is missing, malformed, or longer than keySize
+ */
+export class KeyValidationError extends KeyvDuckDBError {
+  constructor(message: string) {
+    super(message, 'ERR_KEYV_DUCKDB_KEY_VALIDATION');
+    this.name = 'KeyValidationError';
+  }
+}
+
+/**
+ * The database file is locked by another process or is open in this one
+ */
+export class DatabaseLockedError extends KeyvDuckDBError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 'ERR_KEYV_DUCKDB_DATABASE_LOCKED', options);
+    this.name = 'DatabaseLockedError';
+  }
+}
+
+/**
+ * A write was attempted on a store opened with readOnly
+ */
+export class ReadOnlyError extends KeyvDuckDBError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 'ERR_KEYV_DUCKDB_READ_ONLY', options);
+    this.name = 'ReadOnlyError';
+  }
+}
+
+/**
+ * The table could not be created or migrated
+ */
+export class SchemaError extends KeyvDuckDBError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 'ERR_KEYV_DUCKDB_SCHEMA', options);
+    this.name = 'SchemaError';
+  }
+}
+
+/**
+ * An option or argument is invalid, such as conflicting constructor options or an unknown operator
+ */
+export class InvalidArgumentError extends KeyvDuckDBError {
+  constructor(message: string) {
+    super(message, 'ERR_KEYV_DUCKDB_INVALID_ARGUMENT');
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+/**
+ * A transaction handle was used after its callback returned
+ */
+export class TransactionCompletedError extends KeyvDuckDBError {
+  constructor(message = 'transaction has already completed') {
+    super(message, 'ERR_KEYV_DUCKDB_TRANSACTION_COMPLETED');
+    this.name = 'TransactionCompletedError';
+  }
+}
@@ -5,6 +5,34 @@
  * Provides a native Keyv store implementation with SQL-optimized operations.
  */
 
+export type { ConnectionCounts, LockStrategy } from './connection-manager.ts';
 export { closeAllConnections, getConnectionCount, isEncryptedConnection } from './connection-manager.ts';
-export type { KeyvDuckDBOptions } from './keyv-duckdb.ts';
+export { DatabaseLockedError, EncryptionKeyError, InvalidArgumentError, KeyValidationError, KeyvDuckDBDisposedError, KeyvDuckDBError, ReadOnlyError, SchemaError, TransactionCompletedError } from './errors.ts';
+export type { KeyvDuckDBHistogram, KeyvDuckDBMetricsSnapshot, KeyvDuckDBOperationEvent, KeyvDuckDBOperationHook, KeyvDuckDBOperationMetrics } from './instrumentation.ts';
+export { DEFAULT_HISTOGRAM_BOUNDARIES, KeyvDuckDBMetrics } from './instrumentation.ts';
+export type { KeyvDuckDBEncryptionKey, KeyvDuckDBKeyProvider } from './key-providers.ts';
+export { envKeyProvider, fileKeyProvider } from './key-providers.ts';
+export type {
+  KeyvDuckDBBackupOptions,
+  KeyvDuckDBEntry,
+  KeyvDuckDBEntryMeta,
+  KeyvDuckDBEvictEvent,
+  KeyvDuckDBEvictionPolicy,
+  KeyvDuckDBExportOptions,
+  KeyvDuckDBFileFormat,
+  KeyvDuckDBImportOptions,
+  KeyvDuckDBJsonPredicate,
+  KeyvDuckDBJsonScalar,
+  KeyvDuckDBKeysOptions,
+  KeyvDuckDBNamespaceStrategy,
+  KeyvDuckDBOptions,
+  KeyvDuckDBReconnectEvent,
+  KeyvDuckDBReconnectOptions,
+  KeyvDuckDBRestoreOptions,
+  KeyvDuckDBStats,
+  KeyvDuckDBSweepResult,
+  KeyvDuckDBTransaction,
+  KeyvDuckDBWriteBufferOptions,
+} from './keyv-duckdb.ts';
 export { KeyvDuckDB, KeyvDuckDB as default } from './keyv-duckdb.ts';
+export { SCHEMA_VERSION } from './schema.ts';
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Operation instrumentation for KeyvDuckDB
+ *
+ * Every SQL round trip a store makes on its operation queue is reported to the `onOperation`
+ * hook with its timings and outcome. KeyvDuckDBMetrics is a ready-made hook that aggregates
+ * those events in memory into counters and histograms.
+ */
+
+/**
+ * One SQL round trip, reported to the onOperation hook once it completes or fails
+ */
+export interface KeyvDuckDBOperationEvent {
+  /** Store method that ran the statement ('get', 'setMany', 'iterator', ...), or 'evict' for eviction after a write */
+  operation: string;
+  /** Number of keys the statement was given (0 for scans and whole-table statements) */
+  keys: number;
+  /** Milliseconds spent running the statement */
+  duration: number;
+  /** Milliseconds spent waiting behind earlier statements on the operation queue */
+  queueWait: number;
+  /** Rows returned or changed (0 when the statement failed) */
+  rows: number;
+  /** 0 for the first attempt, then the retry number when re-run after a write conflict or a reconnect */
+  attempt: number;
+  /** Error thrown by the statement, if it failed */
+  error?: unknown;
+}
+
+/**
+ * Receives an event for every SQL round trip; called synchronously, so it should not block
+ */
+export type KeyvDuckDBOperationHook = (event: KeyvDuckDBOperationEvent) => void;
+
+/**
+ * Distribution of observed values in milliseconds using explicit bucket boundaries.
+ * `counts[i]` counts observations <= boundaries[i] (and > boundaries[i - 1]); the last count holds
+ * observations above every boundary.
+ */
+export interface KeyvDuckDBHistogram {
+  boundaries: number[];
+  counts: number[];
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Counters and histograms for one operation (or all operations combined)
+ */
+export interface KeyvDuckDBOperationMetrics {
+  /** Statements run */
+  calls: number;
+  /** Statements that failed */
+  errors: number;
+  /** Keys passed to the statements */
+  keys: number;
+  /** Rows returned or changed */
+  rows: number;
+  /** SQL execution time */
+  duration: KeyvDuckDBHistogram;
+  /** Time spent waiting on the operation queue */
+  queueWait: KeyvDuckDBHistogram;
+}
+
+/**
+ * Point-in-time copy of everything a KeyvDuckDBMetrics collector has recorded
+ */
+export interface KeyvDuckDBMetricsSnapshot {
+  total: KeyvDuckDBOperationMetrics;
+  operations: Record<string, KeyvDuckDBOperationMetrics>;
+}
+
+/** Default histogram boundaries in milliseconds */
+export const DEFAULT_HISTOGRAM_BOUNDARIES = [0.1, 0.5, 1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+function createHistogram(boundaries: number[]): KeyvDuckDBHistogram {
+  return { boundaries, counts: new Array(boundaries.length + 1).fill(0), count: 0, sum: 0, min: 0, max: 0 };
+}
+
+function observe(histogram: KeyvDuckDBHistogram, value: number): void {
+  const index = histogram.boundaries.findIndex((boundary) => value <= boundary);
+  histogram.counts[index === -1 ? histogram.boundaries.length : index]++;
+  histogram.min = histogram.count === 0 ? value : Math.min(histogram.min, value);
+  histogram.max = histogram.count === 0 ? value : Math.max(histogram.max, value);
+  histogram.count++;
+  histogram.sum += value;
+}
+
+function createMetrics(boundaries: number[]): KeyvDuckDBOperationMetrics {
+  return { calls: 0, errors: 0, keys: 0, rows: 0, duration: createHistogram(boundaries), queueWait: createHistogram(boundaries) };
+}
+
+function copyMetrics(metrics: KeyvDuckDBOperationMetrics): KeyvDuckDBOperationMetrics {
+  return { ...metrics, duration: { ...metrics.duration, counts: [...metrics.duration.counts] }, queueWait: { ...metrics.queueWait, counts: [...metrics.queueWait.counts] } };
+}
+
+/**
+ * In-memory metrics collector. Pass its `record` method as the store's onOperation hook:
+ *
+ * @example
+ * ```typescript
+ * const metrics = new KeyvDuckDBMetrics();
+ * const store = new KeyvDuckDB('./cache.duckdb', { onOperation: metrics.record });
+ * await store.get('a');
+ * metrics.snapshot().operations.get.duration.sum; // milliseconds spent in SQL for get()
+ * ```
+ */
+export class KeyvDuckDBMetrics {
+  readonly boundaries: number[];
+  private total: KeyvDuckDBOperationMetrics;
+  private operations = new Map<string, KeyvDuckDBOperationMetrics>();
+
+  constructor(options: { boundaries?: number[] } = {}) {
+    this.boundaries = [...(options.boundaries ?? DEFAULT_HISTOGRAM_BOUNDARIES)].sort((a, b) => a - b);
+    this.total = createMetrics(this.boundaries);
+  }
+
+  /**
+   * Add an operation event to the totals and to its operation's metrics (bound, so it can be passed as a hook)
+   */
+  readonly record: KeyvDuckDBOperationHook = (event) => {
+    let metrics = this.operations.get(event.operation);
+    if (!metrics) {
+      metrics = createMetrics(this.boundaries);
+      this.operations.set(event.operation, metrics);
+    }
+    for (const target of [this.total, metrics]) {
+      target.calls++;
+      if (event.error !== undefined) target.errors++;
+      target.keys += event.keys;
+      target.rows += event.rows;
+      observe(target.duration, event.duration);
+      observe(target.queueWait, event.queueWait);
+    }
+  };
+
+  /**
+   * Copy the recorded metrics; later events do not change the returned snapshot
+   */
+  snapshot(): KeyvDuckDBMetricsSnapshot {
+    const operations: Record<string, KeyvDuckDBOperationMetrics> = {};
+    for (const [name, metrics] of this.operations) operations[name] = copyMetrics(metrics);
+    return { total: copyMetrics(this.total), operations };
+  }
+
+  /**
+   * Discard everything recorded so far
+   */
+  reset(): void {
+    this.total = createMetrics(this.boundaries);
+    this.operations.clear();
+  }
+}
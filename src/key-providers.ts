@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Encryption key providers
+ *
+ * An encryption key can be a plain string or a provider that is resolved lazily when the
+ * store first connects, so secrets can come from the environment, a key file or a KMS.
+ */
+
+import fs from 'node:fs/promises';
+import { EncryptionKeyError } from './errors.ts';
+
+/**
+ * Object form of a key provider, e.g. a client for a key management service
+ */
+export interface KeyvDuckDBKeyProvider {
+  getKey(): string | Promise<string>;
+}
+
+/**
+ * Encryption key accepted by KeyvDuckDB: a string, a function returning one, or a provider object
+ */
+export type KeyvDuckDBEncryptionKey = string | (() => string | Promise<string>) | KeyvDuckDBKeyProvider;
+
+/**
+ * Resolve an encryption key option to a string (undefined or empty means no encryption)
+ */
+export async function resolveEncryptionKey(key: KeyvDuckDBEncryptionKey | undefined): Promise<string | undefined> {
+  if (key === undefined) return undefined;
+  if (typeof key === 'string') return key || undefined;
+
+  let resolved: unknown;
+  try {
+    resolved = typeof key === 'function' ? await key() : await key.getKey();
+  } catch (err) {
+    if (err instanceof EncryptionKeyError) throw err;
+    throw new EncryptionKeyError(`encryption key provider failed: ${(err as Error).message}`, { cause: err });
+  }
+  if (typeof resolved !== 'string') throw new EncryptionKeyError('encryption key provider must return a string');
+  return resolved || undefined;
+}
+
+/**
+ * Read the encryption key from an environment variable when the store connects
+ */
+export function envKeyProvider(name: string): KeyvDuckDBKeyProvider {
+  return {
+    getKey() {
+      const value = process.env[name];
+      if (!value) throw new EncryptionKeyError(`environment variable ${name} is not set`);
+      return value;
+    },
+  };
+}
+
+/**
+ * Read the encryption key from a file when the store connects (surrounding whitespace is trimmed)
+ */
+export function fileKeyProvider(file: string): KeyvDuckDBKeyProvider {
+  return {
+    async getKey() {
+      const value = (await fs.readFile(file, 'utf8')).trim();
+      if (!value) throw new EncryptionKeyError(`key file ${file} is empty`);
+      return value;
+    },
+  };
+}
@@ -5,30 +5,382 @@
  * Provides SQL-optimized operations with atomic transactions and connection pooling.
  */
 
+import { randomBytes } from 'node:crypto';
 import { EventEmitter } from 'node:events';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import type { DuckDBConnection, DuckDBValue } from '@duckdb/node-api';
 import type { KeyvStoreAdapter } from 'keyv';
-import { getConnection, isEncryptedConnection, releaseConnection } from './connection-manager.ts';
+import { copyDatabase, discardConnection, getConnection, isConflictError, isDatabaseOpen, isEncryptedConnection, isFatalError, isMemoryPath, isReadOnlyConnection, type LockStrategy, releaseConnection, runExclusive, validateDatabase } from './connection-manager.ts';
+import { DatabaseLockedError, EncryptionKeyError, InvalidArgumentError, KeyValidationError, KeyvDuckDBDisposedError, ReadOnlyError, SchemaError, TransactionCompletedError } from './errors.ts';
+import type { KeyvDuckDBOperationEvent, KeyvDuckDBOperationHook } from './instrumentation.ts';
+import { type KeyvDuckDBEncryptionKey, resolveEncryptionKey } from './key-providers.ts';
+import { checkSchemaVersion, checkValueType, migrateSchema, namespaceTables, readSchemaVersion, type SchemaContext } from './schema.ts';
+import { likePrefix, quoteIdentifier, quoteLiteral } from './sql.ts';
+import { isDuckDBUrl, parseUrl } from './url.ts';
 
 /**
  * Configuration options for KeyvDuckDB store
  */
 export interface KeyvDuckDBOptions {
-  /** Path to the DuckDB database file. Default: ~/.keyv-duckdb/store.duckdb */
+  /** Path to the DuckDB database file, or ':memory:' to keep the data in memory only. Default: ~/.keyv-duckdb/store.duckdb */
   path?: string;
+  /**
+   * Store the data in a new file in the OS temp directory, deleted (with its WAL) by dispose().
+   * Cannot be combined with path. Default: false
+   */
+  temporary?: boolean;
   /** Table name for key-value storage. Default: 'keyv' */
   table?: string;
-  /** Encryption key for AES-256-GCM encryption. If provided, encryption is automatically enabled. Recommended 32+ chars. */
-  encryptionKey?: string;
+  /**
+   * Encryption key for AES-256-GCM encryption. If provided, encryption is automatically enabled. Recommended 32+ chars.
+   * May be a string or a provider (function or object with getKey()) resolved when the store first connects.
+   */
+  encryptionKey?: KeyvDuckDBEncryptionKey;
   /** Maximum key size in characters. Default: 255 */
   keySize?: number;
   /** Dialect identifier for Keyv. Default: 'duckdb' */
   dialect?: string;
-  /** URL/connection string for Keyv. Set to path by default */
+  /**
+   * URL/connection string for Keyv. A `duckdb://<path>?table=...` URL is parsed into options (explicit options
+   * take precedence) and replaced by its normalized form. Set to path by default
+   */
   url?: string;
+  /** Interval in milliseconds for deleting expired entries in the background. Default: disabled */
+  sweepInterval?: number;
+  /** Number of rows fetched per page by iterator(). Default: 1000 */
+  iterationBatchSize?: number;
+  /** Maximum keys per statement in getMany/setMany/hasMany/deleteMany; larger inputs run in chunks. Default: 1000 */
+  batchSize?: number;
+  /** Inputs of at least this many keys are loaded into a temporary table with the DuckDB appender instead of chunked. Default: 10000 */
+  bulkThreshold?: number;
+  /**
+   * Open the database read-only (access_mode READ_ONLY) so several processes can read a file another writes.
+   * The table must already exist; writes reject with ReadOnlyError. Default: false
+   */
+  readOnly?: boolean;
+  /** How to wait for a file locked by another process: retry with backoff up to a timeout, optionally falling back to read-only */
+  lock?: LockStrategy;
+  /**
+   * Release the file between bursts of operations instead of holding it until dispose(),
+   * so several processes can take turns writing to the same store. Default: false
+   */
+  openPerOperation?: boolean;
+  /** With openPerOperation, milliseconds to keep the file open after the last operation. Default: 0 */
+  idleTimeout?: number;
+  /** Recovery from fatal connection errors: how often to re-run an operation on a fresh connection, and the initial backoff */
+  reconnect?: KeyvDuckDBReconnectOptions;
+  /**
+   * Record last_accessed_at and hit_count on get() and getMany(). Turns those reads into writes,
+   * so it is off by default and ignored for read-only stores. Default: false
+   */
+  trackAccess?: boolean;
+  /** Maximum number of entries; the least valuable entries are evicted after set()/setMany(). Default: unlimited */
+  maxEntries?: number;
+  /** Maximum total size of keys and values in bytes, enforced like maxEntries. Default: unlimited */
+  maxBytes?: number;
+  /**
+   * Which entries to evict first when over maxEntries or maxBytes (expired entries always go first):
+   * 'lru' least recently read (needs trackAccess, otherwise least recently written), 'lfu' fewest reads,
+   * 'fifo' oldest. Default: 'lru'
+   */
+  evictionPolicy?: KeyvDuckDBEvictionPolicy;
+  /** Column type for stored values. 'json' validates values on write and enables native JSON storage. Default: 'text' */
+  valueType?: 'text' | 'json';
+  /**
+   * How namespaces are separated: 'prefix' matches the `${namespace}:` key prefix with LIKE, 'column' filters on
+   * the indexed ns column, and 'table' keeps each namespace in its own table. Default: 'prefix'
+   */
+  namespaceStrategy?: KeyvDuckDBNamespaceStrategy;
+  /** Called after every SQL round trip with its operation name, timings and outcome (see KeyvDuckDBMetrics) */
+  onOperation?: KeyvDuckDBOperationHook;
+  /**
+   * Buffer set() and delete() calls and write them together in one transaction (see flush()).
+   * Reads see buffered writes; other operations flush the buffer first. Default: disabled
+   */
+  writeBuffer?: KeyvDuckDBWriteBufferOptions;
+}
+
+/**
+ * When buffered writes are flushed: after `delay` milliseconds, or as soon as `maxSize` writes are pending
+ */
+export interface KeyvDuckDBWriteBufferOptions {
+  /** Milliseconds between the first buffered write and the flush. Default: 10 */
+  delay?: number;
+  /** Number of pending writes that triggers an immediate flush, awaited by the write that reached it. Default: 1000 */
+  maxSize?: number;
+}
+
+/**
+ * Options for listing keys with keys()
+ */
+export interface KeyvDuckDBKeysOptions {
+  /** Only return keys starting with this prefix (matched literally, including '%' and '_') */
+  prefix?: string;
+  /** Only return keys matching this glob pattern ('*', '?' and '[...]' wildcards) */
+  glob?: string;
+  /** Maximum number of keys to return */
+  limit?: number;
+  /** Number of matching keys to skip */
+  offset?: number;
+  /** Sort order of the returned keys. Default: 'asc' */
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * File formats supported by exportTo() and importFrom()
+ */
+export type KeyvDuckDBFileFormat = 'parquet' | 'csv' | 'ndjson';
+
+/**
+ * Options for exportTo()
+ */
+export interface KeyvDuckDBExportOptions {
+  /** File format. Default: inferred from the file extension */
+  format?: KeyvDuckDBFileFormat;
+  /** Only export keys in this namespace. Default: the instance namespace, if set */
+  namespace?: string;
+}
+
+/**
+ * Options for importFrom()
+ */
+export interface KeyvDuckDBImportOptions {
+  /** File format. Default: inferred from the file extension */
+  format?: KeyvDuckDBFileFormat;
+  /** 'merge' upserts into existing data; 'replace' first clears the store's namespace (the whole table without one). Default: 'merge' */
+  mode?: 'merge' | 'replace';
+}
+
+/**
+ * Options for backup()
+ */
+export interface KeyvDuckDBBackupOptions {
+  /** Encryption key for the backup file, or null to write it unencrypted. Default: the store's own key */
+  encryptionKey?: KeyvDuckDBEncryptionKey | null;
+}
+
+/**
+ * Options for KeyvDuckDB.restore()
+ */
+export interface KeyvDuckDBRestoreOptions {
+  /** Encryption key of the backup file, used to validate it before restoring */
+  encryptionKey?: KeyvDuckDBEncryptionKey;
+}
+
+/** Counter for unique backup database aliases (instances may be shared by several stores) */
+let backupCounter = 0;
+
+/**
+ * Infer the file format from an explicit option or the file extension
+ */
+function resolveFileFormat(file: string, format?: KeyvDuckDBFileFormat): KeyvDuckDBFileFormat {
+  if (format) return format;
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.parquet') return 'parquet';
+  if (ext === '.csv') return 'csv';
+  if (ext === '.ndjson' || ext === '.jsonl' || ext === '.json') return 'ndjson';
+  throw new InvalidArgumentError(`cannot infer file format from ${file}; pass format explicitly`);
+}
+
+/**
+ * A JSON scalar that query() and findWhere() can compare against
+ */
+export type KeyvDuckDBJsonScalar = string | number | boolean | null;
+
+/**
+ * Filter applied to the JSON value found at a path
+ * - a bare scalar matches values equal to it
+ * - `{ op, value }` compares with the operator; ordering operators apply to numbers and strings only
+ * - `{ op: 'exists' }` matches when the path is present
+ */
+export type KeyvDuckDBJsonPredicate = KeyvDuckDBJsonScalar | { op: '=' | '!=' | '<' | '<=' | '>' | '>='; value: KeyvDuckDBJsonScalar } | { op: 'exists' };
+
+/**
+ * Retry policy used when the connection fails with a fatal error
+ */
+export interface KeyvDuckDBReconnectOptions {
+  /** Times an operation is re-run on a fresh connection; 0 only reconnects on the next operation. Default: 3 */
+  retries?: number;
+  /** Delay before the first retry in milliseconds; doubles after each attempt. Default: 100 */
+  delay?: number;
+}
+
+/**
+ * Payload of the 'reconnect' event emitted after a broken connection has been replaced
+ */
+export interface KeyvDuckDBReconnectEvent {
+  /** The fatal error that broke the previous connection */
+  error: unknown;
+}
+
+/**
+ * Metadata kept for every entry; timestamps are milliseconds since the epoch
+ */
+export interface KeyvDuckDBEntryMeta {
+  /** When the entry was first written, or null for rows written before metadata was tracked */
+  createdAt: number | null;
+  /** When the value was last written, or null for rows written before metadata was tracked */
+  updatedAt: number | null;
+  /** When the entry was last read by get()/getMany() with trackAccess enabled, or null */
+  lastAccessedAt: number | null;
+  /** Number of reads counted with trackAccess enabled */
+  hitCount: number;
+  /** When the entry expires, or null if it never does */
+  expiresAt: number | null;
+}
+
+/**
+ * An entry returned by getWithMeta() and iteratorWithMeta()
+ */
+export interface KeyvDuckDBEntry<Value> extends KeyvDuckDBEntryMeta {
+  key: string;
+  value: Value;
+}
+
+/** Row shape selected by getWithMeta() and iteratorWithMeta() */
+interface MetaRow {
+  k: string;
+  v: string;
+  created_at: bigint | null;
+  updated_at: bigint | null;
+  last_accessed_at: bigint | null;
+  hit_count: bigint | null;
+  expires: bigint | null;
+}
+
+/** Rows deleted per eviction statement */
+const EVICTION_BATCH_SIZE = 1000;
+
+/** Times an operation is re-run after losing a write conflict to another connection */
+const CONFLICT_RETRIES = 10;
+
+/** Temporary table holding the input of a bulk getMany/setMany/hasMany/deleteMany */
+const BULK_TABLE = 'keyv_duckdb_bulk';
+
+/**
+ * A row written by upsertRows(): key, stored value, expires, write time and namespace
+ */
+type UpsertRow = [string, string, number | null, number, string];
+
+/**
+ * Split items into consecutive chunks of at most `size`
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+const META_COLUMNS = 'k, v, created_at, updated_at, last_accessed_at, hit_count, expires';
+
+function toEntry<Value>(row: MetaRow): KeyvDuckDBEntry<Value> {
+  const time = (value: bigint | null) => (value === null ? null : Number(value));
+  return {
+    key: row.k,
+    value: row.v as Value,
+    createdAt: time(row.created_at),
+    updatedAt: time(row.updated_at),
+    lastAccessedAt: time(row.last_accessed_at),
+    hitCount: Number(row.hit_count ?? 0),
+    expiresAt: time(row.expires),
+  };
+}
+
+/**
+ * A set() (with a value) or delete() (without) waiting in the write buffer
+ */
+interface BufferedWrite {
+  key: string;
+  value?: string;
+  expires: number | null;
+  ns: string;
+  time: number;
+}
+
+/**
+ * How an operation is reported to the onOperation hook: the store method running it, the number
+ * of keys it was given, and how to count the rows in its result
+ */
+interface OperationInfo<T = unknown> {
+  name: string;
+  keys?: number;
+  rows?: (result: T) => number;
+  /** Re-run the operation after a write conflict, or on a fresh connection after a fatal error. Default: true */
+  retry?: boolean;
+  /** Write out buffered writes before the operation runs; false for reads that consult the buffer themselves. Default: true */
+  flush?: boolean;
+}
+
+/**
+ * Snapshot of the store's size and configuration returned by stats()
+ */
+export interface KeyvDuckDBStats {
+  /** Number of live (unexpired) entries */
+  entries: number;
+  /** Number of expired entries not yet swept */
+  expiredEntries: number;
+  /** Live entries per namespace (the ns column: the Keyv namespace or the part of the key before the first ':'; '' for neither) */
+  namespaces: Record<string, number>;
+  /** Total size of live values in bytes */
+  valueBytes: number;
+  /** Average size of a live value in bytes (0 when empty) */
+  averageValueBytes: number;
+  /** Size of the largest live value in bytes (0 when empty) */
+  maxValueBytes: number;
+  /** Size of the database file on disk in bytes */
+  fileBytes: number;
+  /** Size of the write-ahead log in bytes (0 when there is none) */
+  walBytes: number;
+  /** Whether the database file is encrypted */
+  encrypted: boolean;
+  /** Schema version of the table */
+  schemaVersion: number;
+}
+
+/**
+ * Order in which entries are evicted when the store is over capacity
+ */
+export type KeyvDuckDBEvictionPolicy = 'lru' | 'lfu' | 'fifo';
+
+/**
+ * How Keyv namespaces are separated: by key prefix, by the indexed ns column, or by a table per namespace
+ */
+export type KeyvDuckDBNamespaceStrategy = 'prefix' | 'column' | 'table';
+
+/**
+ * Payload of the 'evict' event emitted after entries are evicted to stay within maxEntries/maxBytes
+ */
+export interface KeyvDuckDBEvictEvent {
+  /** Keys that were evicted, as stored (including any namespace prefix) */
+  keys: string[];
+}
+
+/**
+ * Summary emitted with the 'sweep' event after expired entries are deleted
+ */
+export interface KeyvDuckDBSweepResult {
+  /** Number of expired entries deleted */
+  deleted: number;
+  /** Time taken by the sweep in milliseconds */
+  duration: number;
+}
+
+/**
+ * Operations available inside transaction(); they run on the transaction's connection
+ * and are committed or rolled back together
+ */
+export interface KeyvDuckDBTransaction {
+  /** Get a value by key, seeing writes made earlier in the transaction */
+  get<Value>(key: string): Promise<Value | undefined>;
+  /** Store a value with the given key and optional ttl in milliseconds */
+  // biome-ignore lint/suspicious/noExplicitAny: mirrors KeyvStoreAdapter set()
+  set(key: string, value: any, ttl?: number): Promise<boolean>;
+  /** Remove a value by key, returning true if the key existed */
+  delete(key: string): Promise<boolean>;
+  /** Check if a key exists */
+  has(key: string): Promise<boolean>;
 }
 
 /**
@@ -36,6 +388,7 @@ export interface KeyvDuckDBOptions {
  *
  * Features:
  * - AES-256-GCM database encryption via DuckDB 1.4+
+ * - Native TTL with SQL-side expiry filtering and optional background sweeping
  * - SQL-optimized batch operations
  * - Atomic transactions for data consistency
  * - Connection pooling and automatic cleanup
@@ -55,35 +408,87 @@ export interface KeyvDuckDBOptions {
  * ```
  */
 export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
-  ttlSupport = false;
+  ttlSupport = true;
   namespace?: string;
   opts: KeyvDuckDBOptions;
 
   private dbFile: string;
+  /** dbFile is ':memory:' */
+  private inMemory: boolean;
+  /** dbFile was created for this store and is deleted by dispose() */
+  private temporary: boolean;
   private table: string;
-  private encryptionKey: string | undefined;
-  private schemaInitialized = false;
+  private encryptionKey: KeyvDuckDBEncryptionKey | undefined;
+  /** Tables whose schema has been created or checked on the current connection */
+  private preparedTables = new Set<string>();
+  /** Tables prepared on a connection discarded after a fatal error, re-checked by the next connect() */
+  private discardedTables: string[] = [];
   private disposed = false;
   private pendingOperations = 0;
   private connection: DuckDBConnection | undefined;
+  /** In-flight connect so concurrent first operations share one connection */
+  private connecting: Promise<DuckDBConnection> | undefined;
   private keySize: number | undefined;
+  private sweepInterval: number | undefined;
+  private sweepTimer: NodeJS.Timeout | undefined;
+  private iterationBatchSize: number;
+  private batchSize: number;
+  private bulkThreshold: number;
+  private valueType: 'text' | 'json';
+  private readOnly: boolean;
+  private trackAccess: boolean;
+  private maxEntries: number | undefined;
+  private maxBytes: number | undefined;
+  private evictionPolicy: KeyvDuckDBEvictionPolicy;
+  private namespaceStrategy: KeyvDuckDBNamespaceStrategy;
+  private lock: LockStrategy | undefined;
+  private openPerOperation: boolean;
+  private idleTimeout: number;
+  private idleTimer: NodeJS.Timeout | undefined;
+  /** In-flight idle release; reconnecting waits for it so the file is never opened twice */
+  private releasing: Promise<void> | undefined;
+  private reconnectRetries: number;
+  private reconnectDelay: number;
+  /** Fatal error that discarded the previous connection; reported with 'reconnect' once a new one is open */
+  private reconnectError: unknown;
+  private onOperation: KeyvDuckDBOperationHook | undefined;
+  /** Milliseconds before buffered writes are flushed; undefined when writes are not buffered */
+  private writeBufferDelay: number | undefined;
+  private writeBufferSize: number;
+  /** Pending writes by table and key, removed once written */
+  private writeBuffer = new Map<string, BufferedWrite>();
+  private flushTimer: NodeJS.Timeout | undefined;
+  /** Tail of the flushes in progress, so flushes write in order */
+  private flushing: Promise<void> = Promise.resolve();
   /** Promise chain for serializing database operations (DuckDB connections are single-threaded) */
   private operationQueue: Promise<void> = Promise.resolve();
 
   constructor(uri?: string | KeyvDuckDBOptions, options?: Omit<KeyvDuckDBOptions, 'path'>) {
     super(); // Call EventEmitter constructor
 
-    // Parse constructor arguments
+    // Parse constructor arguments (a string is either a file path or a duckdb:// URL)
     let opts: KeyvDuckDBOptions = {};
     if (typeof uri === 'string') {
-      opts = { ...options, path: uri };
-      this.dbFile = uri;
+      opts = isDuckDBUrl(uri) ? { ...options, url: uri } : { ...options, path: uri };
     } else if (uri && typeof uri === 'object') {
       opts = uri;
-      this.dbFile = opts.path ?? path.join(os.homedir(), '.keyv-duckdb', 'store.duckdb');
-    } else {
-      this.dbFile = path.join(os.homedir(), '.keyv-duckdb', 'store.duckdb');
     }
+    // URL parameters fill in options that were not given explicitly
+    if (opts.url !== undefined && isDuckDBUrl(opts.url)) {
+      const parsed = parseUrl(opts.url);
+      opts = { ...parsed.options, ...opts, url: parsed.url };
+    }
+    this.dbFile = opts.path ?? path.join(os.homedir(), '.keyv-duckdb', 'store.duckdb');
+
+    this.temporary = opts.temporary ?? false;
+    if (this.temporary) {
+      if (opts.path !== undefined) throw new InvalidArgumentError('temporary cannot be combined with path');
+      this.dbFile = path.join(os.tmpdir(), `keyv-duckdb-${process.pid}-${randomBytes(8).toString('hex')}.duckdb`);
+    }
+    this.inMemory = isMemoryPath(this.dbFile);
+    // Both would lose data: read-only has nothing to read, and releasing the connection drops the database
+    if ((this.inMemory || this.temporary) && opts.readOnly) throw new InvalidArgumentError(`readOnly cannot be used with ${this.inMemory ? 'an in-memory' : 'a temporary'} database`);
+    if (this.inMemory && opts.openPerOperation) throw new InvalidArgumentError('openPerOperation cannot be used with an in-memory database');
 
     // Set dialect and url for Keyv iterator detection
     opts.dialect = opts.dialect ?? 'duckdb';
@@ -93,29 +498,105 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
     this.table = opts.table ?? 'keyv';
     this.encryptionKey = opts.encryptionKey;
     this.keySize = opts.keySize ?? undefined;
+    this.sweepInterval = opts.sweepInterval ?? undefined;
+    this.iterationBatchSize = opts.iterationBatchSize && opts.iterationBatchSize > 0 ? opts.iterationBatchSize : 1000;
+    this.batchSize = opts.batchSize && opts.batchSize > 0 ? opts.batchSize : 1000;
+    this.bulkThreshold = opts.bulkThreshold && opts.bulkThreshold > 0 ? opts.bulkThreshold : 10000;
+    this.valueType = opts.valueType ?? 'text';
+    this.readOnly = opts.readOnly ?? false;
+    this.trackAccess = opts.trackAccess ?? false;
+    this.maxEntries = opts.maxEntries && opts.maxEntries > 0 ? opts.maxEntries : undefined;
+    this.maxBytes = opts.maxBytes && opts.maxBytes > 0 ? opts.maxBytes : undefined;
+    this.evictionPolicy = opts.evictionPolicy ?? 'lru';
+    this.namespaceStrategy = opts.namespaceStrategy ?? 'prefix';
+    this.lock = opts.lock;
+    this.openPerOperation = opts.openPerOperation ?? false;
+    this.idleTimeout = opts.idleTimeout && opts.idleTimeout > 0 ? opts.idleTimeout : 0;
+    this.reconnectRetries = Math.max(0, opts.reconnect?.retries ?? 3);
+    this.reconnectDelay = Math.max(0, opts.reconnect?.delay ?? 100);
+    this.onOperation = opts.onOperation;
+    this.writeBufferDelay = opts.writeBuffer ? Math.max(0, opts.writeBuffer.delay ?? 10) : undefined;
+    this.writeBufferSize = Math.max(1, opts.writeBuffer?.maxSize ?? 1000);
   }
 
   /**
-   * Get the qualified table reference based on connection type
+   * Get the name of the table holding `namespace` (the configured table unless namespaceStrategy is 'table')
+   * Namespace characters other than lowercase letters and digits are hex-encoded, since identifiers are case-insensitive
+   */
+  private tableName(namespace = this.namespace): string {
+    if (this.namespaceStrategy !== 'table' || !namespace) return this.table;
+    const encoded = Array.from(namespace, (char) => (/[a-z0-9]/.test(char) ? char : `_${char.codePointAt(0)?.toString(16)}_`)).join('');
+    return `${this.table}__${encoded}`;
+  }
+
+  /**
+   * Get the qualified table reference for the current (or given) namespace based on connection type
    * - Encrypted: uses attached database 'store.tableName'
    * - Unencrypted: uses direct database 'tableName'
    */
-  private getTableRef(): string {
+  private getTableRef(namespace = this.namespace): string {
+    return this.qualifiedTable(this.tableName(namespace));
+  }
+
+  /**
+   * Qualify a table name with the attached database on encrypted connections
+   */
+  private qualifiedTable(table: string): string {
     if (this.connection && isEncryptedConnection(this.connection)) {
-      return `store.${this.table}`;
+      return `store.${table}`;
     }
-    return this.table;
+    return table;
+  }
+
+  /**
+   * Get the namespace of a key: the store's namespace for keys Keyv prefixed with it, otherwise the text before
+   * the first ':' ('' if there is none). Recorded in the ns column, and picks the key's table with namespaceStrategy
+   * 'table', since Keyv instances sharing a store each reassign its namespace.
+   */
+  private namespaceOf(key: string): string {
+    if (this.namespace && key.startsWith(`${this.namespace}:`)) return this.namespace;
+    const separator = key.indexOf(':');
+    return separator === -1 ? '' : key.slice(0, separator);
+  }
+
+  /**
+   * Build the SQL condition restricting rows to `namespace`, adding its parameters to `params`
+   * Returns undefined with namespaceStrategy 'table', where the namespace's table holds nothing else
+   */
+  private namespaceCondition(namespace: string, params: Record<string, DuckDBValue>): string | undefined {
+    if (this.namespaceStrategy === 'table') return undefined;
+    if (this.namespaceStrategy === 'column') {
+      params.ns = namespace;
+      return 'ns = $ns';
+    }
+    params.pattern = likePrefix(`${namespace}:`);
+    return `k LIKE $pattern ESCAPE '\\'`;
   }
 
   /**
    * Track the start of an operation. Must be called synchronously at the start of each public method.
-   * Throws if store is fully disposed. Operations started before dispose() is called will complete.
+   * Throws if store is fully disposed, or if a write is attempted on a read-only store.
+   * Operations started before dispose() is called will complete.
    */
-  private beginOperation(): void {
+  private beginOperation(write = false): void {
     if (this.disposed) {
-      throw new Error('KeyvDuckDB has been disposed and cannot be used');
+      throw new KeyvDuckDBDisposedError();
     }
+    if (write) this.assertWritable();
     this.pendingOperations++;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+
+  /**
+   * Reject writes on a store opened with readOnly
+   */
+  private assertWritable(): void {
+    if (this.readOnly) {
+      throw new ReadOnlyError(`KeyvDuckDB was opened read-only and cannot modify ${this.dbFile}`);
+    }
   }
 
   /**
@@ -123,37 +604,326 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
    */
   private endOperation(): void {
     this.pendingOperations--;
+    if (this.openPerOperation && this.pendingOperations === 0 && this.connection && !this.disposed) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = undefined;
+        this.releaseIdleConnection();
+      }, this.idleTimeout);
+      this.idleTimer.unref();
+    }
   }
 
   /**
-   * Get a ready-to-use database connection
+   * Release the connection after a burst of operations (openPerOperation) so other processes can open the file.
+   * The next operation reconnects; the schema is not re-created.
    */
-  private async getConnection(): Promise<DuckDBConnection> {
-    if (this.connection) {
-      return this.connection;
+  private releaseIdleConnection(): void {
+    const conn = this.connection;
+    if (!conn || this.pendingOperations > 0 || this.releasing) return;
+    this.connection = undefined;
+    this.releasing = this.queueOperation(() => releaseConnection(conn, (error) => this.emitError(error))).finally(() => {
+      this.releasing = undefined;
+    });
+  }
+
+  /**
+   * Get a ready-to-use database connection, with the table for the current (or given) namespace in place
+   */
+  private async getConnection(namespace = this.namespace): Promise<DuckDBConnection> {
+    const conn = await this.openConnection();
+    const table = this.tableName(namespace);
+    if (!this.preparedTables.has(table)) await this.prepareTable(conn, table);
+    return conn;
+  }
+
+  /**
+   * Get a database connection without preparing a namespace's table
+   */
+  private async openConnection(): Promise<DuckDBConnection> {
+    if (!this.connection && !this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = undefined;
+      });
     }
+    return this.connection ?? (await (this.connecting as Promise<DuckDBConnection>));
+  }
 
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(this.dbFile), { recursive: true });
+  /**
+   * Open the connection, resolving the encryption key and initializing the schema
+   */
+  private async connect(): Promise<DuckDBConnection> {
+    if (this.releasing) await this.releasing;
 
-    this.connection = await getConnection(this.dbFile, this.encryptionKey);
+    // Ensure directory exists (a read-only store needs the file to exist already)
+    if (!this.readOnly && !this.inMemory) await fs.mkdir(path.dirname(this.dbFile), { recursive: true });
 
-    // Initialize schema if not already done (queue to serialize with other operations)
-    if (!this.schemaInitialized) {
-      const tableRef = this.getTableRef();
+    const encryptionKey = await resolveEncryptionKey(this.encryptionKey);
+    this.connection = await getConnection(this.dbFile, encryptionKey, { readOnly: this.readOnly, lock: this.lock });
+    // The lock strategy may have fallen back to a read-only open
+    if (isReadOnlyConnection(this.connection)) this.readOnly = true;
+
+    // Initialize the schema if not already done: the store's table, or with namespaceStrategy 'table' (where
+    // operations prepare the tables they use) the tables a discarded connection had open
+    const tables = this.namespaceStrategy === 'table' ? this.discardedTables : [this.table];
+    this.discardedTables = [];
+    for (const table of tables) {
+      if (this.preparedTables.has(table)) continue;
       const conn = this.connection;
-      if (conn) await this.queueOperation(() => conn.run(`CREATE TABLE IF NOT EXISTS ${tableRef} (k TEXT PRIMARY KEY, v TEXT)`));
-      this.schemaInitialized = true;
+      try {
+        await this.prepareTable(conn, table);
+      } catch (err) {
+        // Do not leave a connection without a usable table behind; the next operation retries
+        this.connection = undefined;
+        await releaseConnection(conn);
+        throw err;
+      }
     }
 
+    if (this.reconnectError !== undefined) {
+      const event: KeyvDuckDBReconnectEvent = { error: this.reconnectError };
+      this.reconnectError = undefined;
+      this.emit('reconnect', event);
+    }
+
+    this.startSweeper();
     return this.connection;
   }
 
+  /**
+   * Drop a connection that failed with a fatal error so the next operation reconnects and re-checks the schema
+   */
+  private async discardBrokenConnection(conn: DuckDBConnection, error: unknown): Promise<void> {
+    if (this.connection !== conn) return; // Already replaced by a concurrent operation
+    this.connection = undefined;
+    this.discardedTables = [...this.preparedTables];
+    this.preparedTables.clear();
+    this.reconnectError = error;
+    await discardConnection(conn);
+  }
+
+  /**
+   * Create or migrate a table (check it, when read-only), queued to serialize with other operations
+   */
+  private async prepareTable(conn: DuckDBConnection, table: string): Promise<void> {
+    try {
+      const context = this.schemaContext(conn, table);
+      await this.queueOperation(async () => {
+        if (this.readOnly) await checkSchemaVersion(conn, context);
+        else await runExclusive(conn, () => migrateSchema(conn, context));
+        await checkValueType(conn, context);
+      });
+    } catch (err) {
+      if (err instanceof SchemaError) throw err;
+      throw new SchemaError(`failed to ${this.readOnly ? 'open' : 'initialize'} table ${table}: ${(err as Error).message}`, { cause: err });
+    }
+    this.preparedTables.add(table);
+  }
+
+  /**
+   * Get every table holding the store's entries, ready to use: the configured table, or with namespaceStrategy
+   * 'table' the base table and every namespace table that exists in the database
+   */
+  private async entryTables(): Promise<string[]> {
+    if (this.namespaceStrategy !== 'table') {
+      await this.getConnection();
+      return [this.table];
+    }
+    const conn = await this.openConnection();
+    const tables = await this.queueOperation(() => namespaceTables(conn, this.schemaContext(conn, this.table)));
+    for (const table of tables) {
+      if (!this.preparedTables.has(table)) await this.prepareTable(conn, table);
+    }
+    return tables;
+  }
+
+  /**
+   * Get the tables an operation on `namespace` covers, ready to use: its own table, or with namespaceStrategy
+   * 'table' and no namespace, every entry table, so store-wide operations see keys in namespace tables too
+   */
+  private async scopeTables(namespace = this.namespace): Promise<string[]> {
+    await this.getConnection(namespace);
+    return this.namespaceStrategy === 'table' && !namespace ? this.entryTables() : [this.tableName(namespace)];
+  }
+
+  /**
+   * Get a FROM source over the rows of `tables` (from scopeTables() or entryTables())
+   * Columns are matched by name, since migrated tables may order them differently
+   */
+  private entrySource(tables: string[]): string {
+    if (tables.length === 1) return this.qualifiedTable(tables[0]);
+    return `(${tables.map((table) => `SELECT * FROM ${this.qualifiedTable(table)}`).join(' UNION ALL BY NAME ')})`;
+  }
+
+  /**
+   * Where the table lives, for the schema migration runner
+   */
+  private schemaContext(conn: DuckDBConnection, table = this.tableName()): SchemaContext {
+    return { table, database: isEncryptedConnection(conn) ? 'store' : undefined, valueType: this.valueType };
+  }
+
+  /**
+   * Start the background sweeper if a sweep interval is configured
+   * The timer is unref'd so it never keeps the process alive on its own
+   * Read-only stores never sweep; expired entries are still filtered out of reads
+   */
+  private startSweeper(): void {
+    if (this.readOnly || this.sweepTimer || !this.sweepInterval || this.sweepInterval <= 0) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) => this.emitError(error));
+    }, this.sweepInterval);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Report a background failure (sweep, checkpoint) as an 'error' event
+   * Only emitted when someone is listening; an unhandled 'error' event would crash the process
+   */
+  private emitError(error: unknown): void {
+    if (this.listenerCount('error') > 0) this.emit('error', error);
+  }
+
+  /**
+   * Stop the background sweeper
+   */
+  private stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Compute the absolute expiry timestamp for a ttl in milliseconds (null means never expires)
+   */
+  private expiresAt(ttl?: number): number | null {
+    return typeof ttl === 'number' && ttl > 0 ? Date.now() + ttl : null;
+  }
+
+  /**
+   * Build an upsert from `source`, a VALUES list or query producing (k, v, expires, created_at, updated_at, hit_count, ns)
+   * rows: the value, expiry and updated_at are
+   * replaced while created_at and access statistics are kept, unless the existing row had expired,
+   * in which case the entry starts over as new
+   */
+  private upsertSql(tableRef: string, source: string): string {
+    const expired = 't.expires IS NOT NULL AND t.expires <= excluded.updated_at';
+    return `INSERT INTO ${tableRef} AS t (k, v, expires, created_at, updated_at, hit_count, ns) ${source}
+      ON CONFLICT (k) DO UPDATE SET
+        v = excluded.v,
+        ns = excluded.ns,
+        expires = excluded.expires,
+        updated_at = excluded.updated_at,
+        created_at = CASE WHEN ${expired} THEN excluded.created_at ELSE t.created_at END,
+        last_accessed_at = CASE WHEN ${expired} THEN NULL ELSE t.last_accessed_at END,
+        hit_count = CASE WHEN ${expired} THEN 0 ELSE t.hit_count END`;
+  }
+
+  /**
+   * Upsert rows in chunks of batchSize, or from a temporary table when there are bulkThreshold rows or more.
+   * Callers must hold the operation queue, and run it in a transaction so the chunks apply together.
+   * @returns the number of rows changed
+   */
+  private async upsertRows(conn: DuckDBConnection, tableRef: string, rows: UpsertRow[]): Promise<number> {
+    if (rows.length >= this.bulkThreshold) {
+      return this.withBulkTable(conn, 'k TEXT, v TEXT, e BIGINT, t BIGINT, n TEXT', rows, async (bulkRef) => (await conn.run(this.upsertSql(tableRef, `SELECT k, v, e, t, t, 0, n FROM ${bulkRef}`))).rowsChanged);
+    }
+    let changed = 0;
+    for (const rowChunk of chunk(rows, this.batchSize)) {
+      const params: Record<string, DuckDBValue> = {};
+      const values = rowChunk.map(([key, value, expires, time, ns], i) => {
+        Object.assign(params, { [`k${i}`]: key, [`v${i}`]: value, [`e${i}`]: expires, [`t${i}`]: time, [`n${i}`]: ns });
+        return `($k${i}, $v${i}, $e${i}, $t${i}, $t${i}, 0, $n${i})`;
+      });
+      changed += (await conn.run(this.upsertSql(tableRef, `VALUES ${values.join(',')}`), params)).rowsChanged;
+    }
+    return changed;
+  }
+
+  /**
+   * Run `statement` over a list of keys and concatenate its results. `statement` gets the key set to use in
+   * `k IN (...)` with its parameters: `$k0, $k1, ...` placeholders for each chunk of batchSize keys, or a
+   * subquery on a temporary table of all the keys when there are bulkThreshold keys or more.
+   * Callers must hold the operation queue.
+   */
+  private async forKeys<R>(conn: DuckDBConnection, keys: string[], statement: (keySet: string, params: Record<string, DuckDBValue>) => Promise<R[]>): Promise<R[]> {
+    if (keys.length >= this.bulkThreshold) {
+      return this.withBulkTable(
+        conn,
+        'k TEXT',
+        keys.map((key) => [key]),
+        (bulkRef) => statement(`SELECT k FROM ${bulkRef}`, {})
+      );
+    }
+    const results: R[] = [];
+    for (const keyChunk of chunk(keys, this.batchSize)) {
+      const params = Object.fromEntries(keyChunk.map((key, i) => [`k${i}`, key]));
+      for (const result of await statement(keyChunk.map((_, i) => `$k${i}`).join(','), params)) results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Load rows into a temporary table with the DuckDB appender, run `operation` against it and drop it.
+   * Appending avoids building a statement with a parameter per value, so large inputs scale linearly.
+   */
+  private async withBulkTable<T>(conn: DuckDBConnection, columns: string, rows: Array<Array<string | number | null>>, operation: (bulkRef: string) => Promise<T>): Promise<T> {
+    await conn.run(`CREATE OR REPLACE TEMP TABLE ${BULK_TABLE} (${columns})`);
+    try {
+      const appender = await conn.createAppender(BULK_TABLE, null, 'temp');
+      try {
+        for (const row of rows) {
+          for (const value of row) {
+            if (value === null) appender.appendNull();
+            else if (typeof value === 'number') appender.appendBigInt(BigInt(value));
+            else appender.appendVarchar(value);
+          }
+          appender.endRow();
+        }
+        appender.flushSync();
+      } finally {
+        appender.closeSync();
+      }
+      return await operation(`temp.${BULK_TABLE}`);
+    } finally {
+      await conn.run(`DROP TABLE IF EXISTS temp.${BULK_TABLE}`).catch(() => {
+        // A rolled-back transaction or broken connection has already discarded the table
+      });
+    }
+  }
+
+  /**
+   * Whether reads should record last_accessed_at and hit_count
+   */
+  private tracksAccess(): boolean {
+    return this.trackAccess && !this.readOnly;
+  }
+
+  /**
+   * Read `columns` of the rows matching `live`, recording the access when trackAccess is on. A read never fails
+   * because its access could not be recorded: if the update loses a write conflict, the rows are read without it.
+   */
+  private async readLive<R>(conn: DuckDBConnection, tableRef: string, columns: string, live: string, params: Record<string, DuckDBValue>): Promise<R[]> {
+    if (this.tracksAccess()) {
+      try {
+        return (await conn.runAndReadAll(`UPDATE ${tableRef} SET last_accessed_at = $now, hit_count = COALESCE(hit_count, 0) + 1 WHERE ${live} RETURNING ${columns}`, params)).getRowObjects() as R[];
+      } catch (err) {
+        if (!isConflictError(err)) throw err;
+      }
+    }
+    return (await conn.runAndReadAll(`SELECT ${columns} FROM ${tableRef} WHERE ${live}`, params)).getRowObjects() as R[];
+  }
+
   /**
    * Queue an operation to run serially (DuckDB connections are single-threaded)
    */
   private queueOperation<T>(operation: () => Promise<T>): Promise<T> {
-    const result = this.operationQueue.then(operation, operation);
+    const result = this.operationQueue.then(operation, operation).catch((err) => {
+      // A write queued before a lock fallback made the store read-only fails inside DuckDB
+      if (this.readOnly && /read-only mode/i.test((err as Error)?.message ?? '')) {
+        throw new ReadOnlyError(`KeyvDuckDB was opened read-only and cannot modify ${this.dbFile}`, { cause: err });
+      }
+      throw err;
+    });
     // Update queue to track completion (ignore result value, only track timing)
     this.operationQueue = result.then(
       () => {},
@@ -162,34 +932,219 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
     return result;
   }
 
+  /**
+   * Run an operation on the connection behind the operation queue, recovering from fatal connection errors.
+   * By default the operation is re-run on a fresh connection with exponential backoff, up to the reconnect
+   * retry limit; with `retry: false` (operations with side effects outside the database) the error is rethrown
+   * and the next operation reconnects. An operation that loses a write conflict to another connection on the
+   * same file has been rolled back, so it is re-run after a short random delay, up to CONFLICT_RETRIES times.
+   * Each attempt is reported to the onOperation hook. Buffered writes are flushed first unless `flush: false`.
+   */
+  private async execute<T>(info: OperationInfo<T>, operation: (conn: DuckDBConnection) => Promise<T>): Promise<T> {
+    if (info.flush !== false && this.writeBuffer.size > 0) await this.flush();
+    let reconnects = 0;
+    let conflicts = 0;
+    for (let attempt = 0; ; attempt++) {
+      const conn = await this.openConnection();
+      const queued = performance.now();
+      let started = queued;
+      try {
+        const result = await this.queueOperation(() => {
+          started = performance.now();
+          return operation(conn);
+        });
+        this.reportOperation({ operation: info.name, keys: info.keys ?? 0, duration: performance.now() - started, queueWait: started - queued, rows: info.rows?.(result) ?? 0, attempt });
+        return result;
+      } catch (err) {
+        this.reportOperation({ operation: info.name, keys: info.keys ?? 0, duration: performance.now() - started, queueWait: started - queued, rows: 0, attempt, error: err });
+        if (isConflictError(err) && info.retry !== false && conflicts < CONFLICT_RETRIES) {
+          await new Promise((resolve) => setTimeout(resolve, Math.random() * 2 ** conflicts++));
+          continue;
+        }
+        if (!isFatalError(err)) throw err;
+        await this.discardBrokenConnection(conn, err);
+        if (info.retry === false || reconnects >= this.reconnectRetries) throw err;
+        await new Promise((resolve) => setTimeout(resolve, this.reconnectDelay * 2 ** reconnects++));
+      }
+    }
+  }
+
+  /**
+   * Pass an operation event to the onOperation hook; a throwing hook is reported as an 'error' event
+   */
+  private reportOperation(event: KeyvDuckDBOperationEvent): void {
+    if (!this.onOperation) return;
+    try {
+      this.onOperation(event);
+    } catch (err) {
+      this.emitError(err);
+    }
+  }
+
   /**
    * Run a SQL statement with optional parameters
+   * @returns the number of rows changed
    */
-  private async run(sql: string, params: Record<string, DuckDBValue> = {}): Promise<void> {
-    const conn = await this.getConnection();
-    await this.queueOperation(() => conn.run(sql, params));
+  private async run(info: Omit<OperationInfo, 'rows'>, sql: string, params: Record<string, DuckDBValue> = {}): Promise<number> {
+    return this.execute({ ...info, rows: (changed: number) => changed }, async (conn) => (await conn.run(sql, params)).rowsChanged);
   }
 
   /**
    * Run a SQL query and return all rows as objects
    */
-  private async all<R = Record<string, unknown>>(sql: string, params: Record<string, DuckDBValue> = {}): Promise<R[]> {
-    const conn = await this.getConnection();
-    return this.queueOperation(async () => {
+  private async all<R = Record<string, unknown>>(info: Omit<OperationInfo, 'rows'>, sql: string, params: Record<string, DuckDBValue> = {}): Promise<R[]> {
+    return this.execute({ ...info, rows: (rows: R[]) => rows.length }, async (conn) => {
       const result = await conn.runAndReadAll(sql, params);
       return result.getRowObjects() as R[];
     });
   }
 
   /**
-   * Validate key parameter
+   * Validate key parameter
+   */
+  private validateKey(key: string): void {
+    if (!key || key.length === 0) {
+      throw new KeyValidationError('key required');
+    }
+    if (this.keySize && key.length > this.keySize) {
+      throw new KeyValidationError(`key length ${key.length} exceeds maximum ${this.keySize}`);
+    }
+  }
+
+  /**
+   * Group items by the table holding their keys (several only with namespaceStrategy 'table'), making sure each
+   * table exists. Each group carries the namespace to pass to getTableRef().
+   */
+  private async groupByTable<T>(items: T[], keyOf: (item: T) => string): Promise<Array<{ namespace: string; items: T[] }>> {
+    const groups = new Map<string, { namespace: string; items: T[] }>();
+    for (const item of items) {
+      const namespace = this.namespaceOf(keyOf(item));
+      const table = this.tableName(namespace);
+      const group = groups.get(table);
+      if (group) group.items.push(item);
+      else groups.set(table, { namespace, items: [item] });
+    }
+    for (const group of groups.values()) await this.getConnection(group.namespace);
+    return [...groups.values()];
+  }
+
+  /**
+   * Run `operation` on each group from groupByTable() with its table reference, concatenating the results
+   */
+  private async forTables<T, R>(groups: Array<{ namespace: string; items: T[] }>, operation: (tableRef: string, items: T[]) => Promise<R[]>): Promise<R[]> {
+    let results: R[] = [];
+    for (const group of groups) results = results.concat(await operation(this.getTableRef(group.namespace), group.items));
+    return results;
+  }
+
+  /**
+   * Identify a buffered write by the table it goes to and its key
+   */
+  private bufferId(namespace: string, key: string): string {
+    return `${this.tableName(namespace)}\0${key}`;
+  }
+
+  /**
+   * Get the pending write for a key, if there is one
+   */
+  private bufferedWrite(key: string): BufferedWrite | undefined {
+    return this.writeBuffer.get(this.bufferId(this.namespaceOf(key), key));
+  }
+
+  /**
+   * Get the value a pending write leaves behind: undefined after a delete or once its ttl has passed
+   */
+  private bufferedValue(write: BufferedWrite): string | undefined {
+    return write.expires === null || write.expires > Date.now() ? write.value : undefined;
+  }
+
+  /**
+   * Add a set (value) or delete (no value) to the write buffer, replacing any pending write for the key.
+   * Flushes at once when the buffer is full, otherwise schedules a flush after the configured delay.
+   */
+  private async bufferWrite(key: string, value: string | undefined, expires: number | null): Promise<void> {
+    const ns = this.namespaceOf(key);
+    this.writeBuffer.set(this.bufferId(ns, key), { key, value, expires, ns, time: Date.now() });
+    if (this.writeBuffer.size >= this.writeBufferSize) {
+      await this.flush();
+    } else if (!this.flushTimer) {
+      // Not unref'd, so buffered writes are written before the process exits on its own
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush().catch((error) => this.emitError(error));
+      }, this.writeBufferDelay);
+    }
+  }
+
+  /**
+   * Write all buffered set() and delete() calls in one transaction, with one statement per table for the sets
+   * and one for the deletes. Resolves once every write buffered before the call is stored; a failed flush
+   * rejects and its writes are dropped. Does nothing when writes are not buffered.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const flushing = this.flushing.then(() => this.writeBuffered());
+    this.flushing = flushing.catch(() => {});
+    await flushing;
+  }
+
+  /**
+   * Write a snapshot of the write buffer. Writes stay readable from the buffer until they are committed,
+   * and are then removed unless a newer write for the same key replaced them in the meantime.
    */
-  private validateKey(key: string): void {
-    if (!key || key.length === 0) {
-      throw new Error('key required');
+  private async writeBuffered(): Promise<void> {
+    if (this.writeBuffer.size === 0) return;
+    const batch = new Map(this.writeBuffer);
+    const drain = () => {
+      for (const [id, write] of batch) {
+        if (this.writeBuffer.get(id) === write) this.writeBuffer.delete(id);
+      }
+    };
+    try {
+      this.beginOperation(true);
+    } catch (err) {
+      // Also drop the batch when the store has since become read-only or disposed
+      drain();
+      throw err;
     }
-    if (this.keySize && key.length > this.keySize) {
-      throw new Error(`key length ${key.length} exceeds maximum ${this.keySize}`);
+    try {
+      const tables = new Map<string, BufferedWrite[]>();
+      for (const write of batch.values()) {
+        const table = this.tableName(write.ns);
+        tables.set(table, [...(tables.get(table) ?? []), write]);
+      }
+      for (const writes of tables.values()) await this.getConnection(writes[0].ns); // Ensure each table exists
+
+      const info = { name: 'flush', keys: batch.size, flush: false, rows: (changed: number) => changed };
+      await this.execute(info, (conn) =>
+        this.withTransaction(conn, async () => {
+          let changed = 0;
+          for (const writes of tables.values()) {
+            const tableRef = this.getTableRef(writes[0].ns);
+            const sets = writes.filter((write) => write.value !== undefined);
+            const deletes = writes.filter((write) => write.value === undefined);
+            changed += await this.upsertRows(
+              conn,
+              tableRef,
+              sets.map((write) => [write.key, write.value as string, write.expires, write.time, write.ns])
+            );
+            const deleted = await this.forKeys(
+              conn,
+              deletes.map((write) => write.key),
+              async (keySet, params) => [(await conn.run(`DELETE FROM ${tableRef} WHERE k IN (${keySet})`, params)).rowsChanged]
+            );
+            for (const count of deleted) changed += count;
+          }
+          return changed;
+        })
+      );
+      await this.evict();
+    } finally {
+      drain();
+      this.endOperation();
     }
   }
 
@@ -200,8 +1155,13 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
     this.beginOperation();
     try {
       this.validateKey(key);
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      const rows = await this.all<{ v: string }>(`SELECT v FROM ${this.getTableRef()} WHERE k = $key`, { key });
+      const buffered = this.bufferedWrite(key);
+      if (buffered) return this.bufferedValue(buffered) as Value | undefined;
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      const tableRef = this.getTableRef(ns);
+      const info = { name: 'get', keys: 1, flush: false, rows: (found: unknown[]) => found.length };
+      const rows = await this.execute<Array<{ v: string }>>(info, (conn) => this.readLive<{ v: string }>(conn, tableRef, 'v', 'k = $key AND (expires IS NULL OR expires > $now)', { key, now: Date.now() }));
       return rows[0]?.v as Value | undefined;
     } finally {
       this.endOperation();
@@ -209,23 +1169,45 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
   }
 
   /**
-   * Get multiple values by their keys efficiently using SQL IN clause.
+   * Get a value together with its metadata (timestamps, hit count and expiry).
+   * Does not count as an access, so inspecting an entry leaves lastAccessedAt and hitCount unchanged.
+   */
+  async getWithMeta<Value>(key: string): Promise<KeyvDuckDBEntry<Value> | undefined> {
+    this.beginOperation();
+    try {
+      this.validateKey(key);
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      const rows = await this.all<MetaRow>({ name: 'getWithMeta', keys: 1 }, `SELECT ${META_COLUMNS} FROM ${this.getTableRef(ns)} WHERE k = $key AND (expires IS NULL OR expires > $now)`, { key, now: Date.now() });
+      return rows[0] ? toEntry<Value>(rows[0]) : undefined;
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Get multiple values by their keys efficiently using SQL IN clause, in chunks of batchSize keys.
    * KeyvStoreAdapter interface: getMany?<Value>(keys: string[]): Promise<Array<StoredData<Value | undefined>>>
    */
   async getMany<Value>(keys: string[]): Promise<Array<Value | undefined>> {
-    if (!Array.isArray(keys)) throw new Error('keys must be an array');
+    if (!Array.isArray(keys)) throw new KeyValidationError('keys must be an array');
     if (keys.length === 0) return [];
     this.beginOperation();
     try {
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      const placeholders = keys.map((_, i) => `$k${i}`).join(',');
-      const params: Record<string, string> = {};
-      keys.forEach((k, i) => {
-        params[`k${i}`] = k;
-      });
-      const rows = await this.all<{ k: string; v: string }>(`SELECT k, v FROM ${this.getTableRef()} WHERE k IN (${placeholders})`, params);
-      const resultMap = new Map(rows.map((r) => [r.k, r.v]));
-      return keys.map((key) => resultMap.get(key) as Value | undefined);
+      // Keys with a pending buffered write are answered from the buffer
+      const buffered = keys.map((key) => this.bufferedWrite(key));
+      const stored = keys.filter((_, i) => !buffered[i]);
+      const resultMap = new Map<string, string>();
+      if (stored.length > 0) {
+        const groups = await this.groupByTable(stored, (key) => key);
+        const now = Date.now();
+        const info = { name: 'getMany', keys: stored.length, flush: false, rows: (found: unknown[]) => found.length };
+        const rows = await this.execute<Array<{ k: string; v: string }>>(info, (conn) =>
+          this.forTables(groups, (tableRef, keys) => this.forKeys(conn, keys, (keySet, params) => this.readLive<{ k: string; v: string }>(conn, tableRef, 'k, v', `k IN (${keySet}) AND (expires IS NULL OR expires > $now)`, { ...params, now })))
+        );
+        for (const row of rows) resultMap.set(row.k, row.v);
+      }
+      return keys.map((key, i) => (buffered[i] ? this.bufferedValue(buffered[i]) : resultMap.get(key)) as Value | undefined);
     } finally {
       this.endOperation();
     }
@@ -236,14 +1218,20 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
    * KeyvStoreAdapter interface: set(key: string, value: any, ttl?: number): any
    */
   // biome-ignore lint/suspicious/noExplicitAny: KeyvStoreAdapter interface uses any
-  async set(key: string, value: any, _ttl?: number): Promise<boolean> {
-    this.beginOperation();
+  async set(key: string, value: any, ttl?: number): Promise<boolean> {
+    this.beginOperation(true);
     try {
       this.validateKey(key);
-      await this.getConnection(); // Ensure connection exists for getTableRef
       // Store value as-is; Keyv handles serialization
       const stored = typeof value === 'string' ? value : JSON.stringify(value);
-      await this.run(`INSERT OR REPLACE INTO ${this.getTableRef()} (k, v) VALUES ($key, $value)`, { key, value: stored });
+      if (this.writeBufferDelay !== undefined) {
+        await this.bufferWrite(key, stored, this.expiresAt(ttl));
+        return true;
+      }
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      await this.run({ name: 'set', keys: 1 }, this.upsertSql(this.getTableRef(ns), 'VALUES ($key, $value, $expires, $now, $now, 0, $ns)'), { key, value: stored, expires: this.expiresAt(ttl), now: Date.now(), ns });
+      await this.evict();
       return true;
     } finally {
       this.endOperation();
@@ -251,24 +1239,27 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
   }
 
   /**
-   * Store multiple key-value pairs efficiently.
+   * Store multiple key-value pairs efficiently, in chunks of batchSize entries applied in one transaction.
    * KeyvStoreAdapter interface: setMany?(values: Array<{ key: string; value: any; ttl?: number }>): Promise<void>
    */
   // biome-ignore lint/suspicious/noExplicitAny: KeyvStoreAdapter interface uses any
   async setMany(entries: Array<{ key: string; value: any; ttl?: number }>): Promise<void> {
-    if (!Array.isArray(entries)) throw new Error('entries must be an array');
+    if (!Array.isArray(entries)) throw new KeyValidationError('entries must be an array');
     if (entries.length === 0) return;
-    this.beginOperation();
+    this.beginOperation(true);
     try {
       for (const entry of entries) this.validateKey(entry.key);
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      const placeholders = entries.map((_, i) => `($k${i}, $v${i})`).join(',');
-      const params: Record<string, string> = {};
-      entries.forEach((entry, i) => {
-        params[`k${i}`] = entry.key;
-        params[`v${i}`] = typeof entry.value === 'string' ? entry.value : JSON.stringify(entry.value);
-      });
-      await this.run(`INSERT OR REPLACE INTO ${this.getTableRef()} (k, v) VALUES ${placeholders}`, params);
+      const now = Date.now();
+      const rows = entries.map((entry): UpsertRow => [entry.key, typeof entry.value === 'string' ? entry.value : JSON.stringify(entry.value), this.expiresAt(entry.ttl), now, this.namespaceOf(entry.key)]);
+      const groups = await this.groupByTable(rows, (row) => row[0]);
+      const info = { name: 'setMany', keys: entries.length, rows: (changed: number) => changed };
+      await this.execute(info, (conn) =>
+        this.withTransaction(conn, async () => {
+          const changed = await this.forTables(groups, async (tableRef, tableRows) => [await this.upsertRows(conn, tableRef, tableRows)]);
+          return changed.reduce((sum, count) => sum + count, 0);
+        })
+      );
+      await this.evict();
     } finally {
       this.endOperation();
     }
@@ -279,38 +1270,38 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
    * @returns true if the key existed, false otherwise
    */
   async delete(key: string): Promise<boolean> {
-    this.beginOperation();
+    this.beginOperation(true);
     try {
       this.validateKey(key);
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      const rows = await this.all<{ count: bigint }>(`SELECT COUNT(*) as count FROM ${this.getTableRef()} WHERE k = $key`, { key });
-      const existed = (rows[0]?.count ?? 0n) > 0n;
-      if (existed) {
-        await this.run(`DELETE FROM ${this.getTableRef()} WHERE k = $key`, { key });
+      if (this.writeBufferDelay !== undefined) {
+        const existed = await this.has(key);
+        await this.bufferWrite(key, undefined, null);
+        return existed;
       }
-      return existed;
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      // Always delete so an expired row is removed too, but only report live keys as existing
+      const rows = await this.all<{ expires: bigint | null }>({ name: 'delete', keys: 1 }, `DELETE FROM ${this.getTableRef(ns)} WHERE k = $key RETURNING expires`, { key });
+      const now = BigInt(Date.now());
+      return rows.some((row) => row.expires === null || row.expires > now);
     } finally {
       this.endOperation();
     }
   }
 
   /**
-   * Remove multiple keys efficiently using SQL IN clause.
+   * Remove multiple keys efficiently using SQL IN clause, in chunks of batchSize keys applied in one transaction.
    * @returns true if all keys were deleted successfully
    */
   async deleteMany(keys: string[]): Promise<boolean> {
-    if (!Array.isArray(keys)) throw new Error('keys must be an array');
+    if (!Array.isArray(keys)) throw new KeyValidationError('keys must be an array');
     if (keys.length === 0) return true;
-    this.beginOperation();
+    this.beginOperation(true);
     try {
       for (const key of keys) this.validateKey(key);
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      const placeholders = keys.map((_, i) => `$k${i}`).join(',');
-      const params: Record<string, string> = {};
-      keys.forEach((k, i) => {
-        params[`k${i}`] = k;
-      });
-      await this.run(`DELETE FROM ${this.getTableRef()} WHERE k IN (${placeholders})`, params);
+      const groups = await this.groupByTable(keys, (key) => key);
+      const info = { name: 'deleteMany', keys: keys.length, rows: (deleted: number[]) => deleted.reduce((sum, count) => sum + count, 0) };
+      await this.execute(info, (conn) => this.withTransaction(conn, () => this.forTables(groups, (tableRef, tableKeys) => this.forKeys(conn, tableKeys, async (keySet, params) => [(await conn.run(`DELETE FROM ${tableRef} WHERE k IN (${keySet})`, params)).rowsChanged]))));
       return true;
     } finally {
       this.endOperation();
@@ -324,8 +1315,11 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
     this.beginOperation();
     try {
       this.validateKey(key);
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      const rows = await this.all<{ count: bigint }>(`SELECT COUNT(*) as count FROM ${this.getTableRef()} WHERE k = $key`, { key });
+      const buffered = this.bufferedWrite(key);
+      if (buffered) return this.bufferedValue(buffered) !== undefined;
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      const rows = await this.all<{ count: bigint }>({ name: 'has', keys: 1, flush: false }, `SELECT COUNT(*) as count FROM ${this.getTableRef(ns)} WHERE k = $key AND (expires IS NULL OR expires > $now)`, { key, now: Date.now() });
       return (rows[0]?.count ?? 0n) > 0n;
     } finally {
       this.endOperation();
@@ -336,40 +1330,287 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
    * Check if multiple keys exist in the store.
    */
   async hasMany(keys: string[]): Promise<boolean[]> {
-    if (!Array.isArray(keys)) throw new Error('keys must be an array');
+    if (!Array.isArray(keys)) throw new KeyValidationError('keys must be an array');
     if (keys.length === 0) return [];
     this.beginOperation();
     try {
       for (const key of keys) this.validateKey(key);
+      const buffered = keys.map((key) => this.bufferedWrite(key));
+      const stored = keys.filter((_, i) => !buffered[i]);
+      const existsSet = new Set<string>();
+      if (stored.length > 0) {
+        const groups = await this.groupByTable(stored, (key) => key);
+        const now = Date.now();
+        const info = { name: 'hasMany', keys: stored.length, flush: false, rows: (found: unknown[]) => found.length };
+        const rows = await this.execute<Array<{ k: string }>>(info, (conn) =>
+          this.forTables(groups, (tableRef, keys) => this.forKeys(conn, keys, async (keySet, params) => (await conn.runAndReadAll(`SELECT k FROM ${tableRef} WHERE k IN (${keySet}) AND (expires IS NULL OR expires > $now)`, { ...params, now })).getRowObjects() as Array<{ k: string }>))
+        );
+        for (const row of rows) existsSet.add(row.k);
+      }
+      return keys.map((key, i) => (buffered[i] ? this.bufferedValue(buffered[i]) !== undefined : existsSet.has(key)));
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Store a value only if the key does not exist (or has expired).
+   * Atomic at the SQL level via INSERT ... ON CONFLICT, so concurrent writers cannot both win; losing a
+   * conflict to another store on the same file also resolves false.
+   * @returns true if the value was written, false if a live value already existed
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: matches set() value type
+  async setIfAbsent(key: string, value: any, ttl?: number): Promise<boolean> {
+    this.beginOperation(true);
+    try {
+      this.validateKey(key);
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      const stored = typeof value === 'string' ? value : JSON.stringify(value);
+      const rows = await this.all<{ k: string }>(
+        { name: 'setIfAbsent', keys: 1 },
+        `INSERT INTO ${this.getTableRef(ns)} AS t (k, v, expires, created_at, updated_at, hit_count, ns) VALUES ($key, $value, $expires, $now, $now, 0, $ns)
+         ON CONFLICT (k) DO UPDATE SET v = excluded.v, expires = excluded.expires, created_at = excluded.created_at, updated_at = excluded.updated_at, last_accessed_at = NULL, hit_count = 0
+         WHERE t.expires IS NOT NULL AND t.expires <= $now
+         RETURNING k`,
+        { key, value: stored, expires: this.expiresAt(ttl), now: Date.now(), ns }
+      ).catch((err) => {
+        if (isConflictError(err)) return [];
+        throw err;
+      });
+      return rows.length > 0;
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Replace a value only if the currently stored value equals `expected`.
+   * Values are compared in their stored form (strings as-is, other values JSON-serialized).
+   * A concurrent swap by another store on the same file that wins the write conflict makes this one resolve false.
+   * @returns true if the value was swapped, false if the key was missing, expired or held a different value
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: matches set() value type
+  async compareAndSet(key: string, expected: any, next: any, ttl?: number): Promise<boolean> {
+    this.beginOperation(true);
+    try {
+      this.validateKey(key);
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      const rows = await this.all<{ k: string }>({ name: 'compareAndSet', keys: 1 }, `UPDATE ${this.getTableRef(ns)} SET v = $next, expires = $expires, updated_at = $now WHERE k = $key AND v = $expected AND (expires IS NULL OR expires > $now) RETURNING k`, {
+        key,
+        expected: typeof expected === 'string' ? expected : JSON.stringify(expected),
+        next: typeof next === 'string' ? next : JSON.stringify(next),
+        expires: this.expiresAt(ttl),
+        now: Date.now(),
+      }).catch((err) => {
+        if (isConflictError(err)) return [];
+        throw err;
+      });
+      return rows.length > 0;
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Atomically add `delta` to an integer counter, creating it (with the optional ttl) if missing or expired.
+   * An existing live counter keeps its expiry, so a ttl acts as a fixed window for rate limiting.
+   * @returns the new counter value
+   */
+  async increment(key: string, delta = 1, ttl?: number): Promise<number> {
+    if (!Number.isInteger(delta)) throw new InvalidArgumentError('delta must be an integer');
+    this.beginOperation(true);
+    try {
+      this.validateKey(key);
+      const ns = this.namespaceOf(key);
+      await this.getConnection(ns); // Ensure connection and the key's table exist for getTableRef
+      const expired = 't.expires IS NOT NULL AND t.expires <= $now';
+      const sql = `INSERT INTO ${this.getTableRef(ns)} AS t (k, v, expires, created_at, updated_at, hit_count, ns) VALUES ($key, CAST($delta AS BIGINT)::TEXT, $expires, $now, $now, 0, $ns)
+         ON CONFLICT (k) DO UPDATE SET
+           v = CASE WHEN ${expired} THEN excluded.v ELSE (CAST(t.v AS BIGINT) + CAST($delta AS BIGINT))::TEXT END,
+           expires = CASE WHEN ${expired} THEN excluded.expires ELSE t.expires END,
+           updated_at = excluded.updated_at,
+           created_at = CASE WHEN ${expired} THEN excluded.created_at ELSE t.created_at END,
+           last_accessed_at = CASE WHEN ${expired} THEN NULL ELSE t.last_accessed_at END,
+           hit_count = CASE WHEN ${expired} THEN 0 ELSE t.hit_count END
+         RETURNING v`;
+      const rows = await this.all<{ v: string }>({ name: 'increment', keys: 1 }, sql, { key, delta, expires: this.expiresAt(ttl), now: Date.now(), ns });
+      return Number(rows[0].v);
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * List keys matching a prefix and/or glob pattern without reading values.
+   * Keys are matched as stored, including any Keyv namespace prefix.
+   */
+  async keys(options: KeyvDuckDBKeysOptions = {}): Promise<string[]> {
+    this.beginOperation();
+    try {
+      const tables = await this.scopeTables();
+      const params: Record<string, DuckDBValue> = {};
+      const where = this.keyConditions(options, params);
+      let sql = `SELECT k FROM ${this.entrySource(tables)} WHERE ${where} ORDER BY k ${options.order === 'desc' ? 'DESC' : 'ASC'}`;
+      if (options.limit !== undefined) {
+        sql += ' LIMIT $limit';
+        params.limit = options.limit;
+      }
+      if (options.offset !== undefined) {
+        sql += ' OFFSET $offset';
+        params.offset = options.offset;
+      }
+      const rows = await this.all<{ k: string }>({ name: 'keys' }, sql, params);
+      return rows.map((row) => row.k);
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Count keys matching a prefix and/or glob pattern (all live keys if neither is given).
+   */
+  async count(options: Pick<KeyvDuckDBKeysOptions, 'prefix' | 'glob'> = {}): Promise<number> {
+    this.beginOperation();
+    try {
+      const tables = await this.scopeTables();
+      const params: Record<string, DuckDBValue> = {};
+      const rows = await this.all<{ count: bigint }>({ name: 'count' }, `SELECT COUNT(*) as count FROM ${this.entrySource(tables)} WHERE ${this.keyConditions(options, params)}`, params);
+      return Number(rows[0]?.count ?? 0n);
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Delete every key starting with `prefix`.
+   * @returns the number of entries deleted
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    if (!prefix) throw new KeyValidationError('prefix required');
+    this.beginOperation(true);
+    try {
+      const tables = await this.scopeTables();
+      return await this.execute({ name: 'deleteByPrefix', rows: (count: number) => count }, (conn) =>
+        this.withTransaction(conn, async () => {
+          let count = 0;
+          for (const table of tables) count += (await conn.run(`DELETE FROM ${this.qualifiedTable(table)} WHERE k LIKE $pattern ESCAPE '\\'`, { pattern: likePrefix(prefix) })).rowsChanged;
+          return count;
+        })
+      );
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Build the WHERE clause for keys()/count(), adding its parameters to `params`
+   */
+  private keyConditions(options: Pick<KeyvDuckDBKeysOptions, 'prefix' | 'glob'>, params: Record<string, DuckDBValue>): string {
+    const conditions = ['(expires IS NULL OR expires > $now)'];
+    params.now = Date.now();
+    if (options.prefix) {
+      conditions.push(`k LIKE $pattern ESCAPE '\\'`);
+      params.pattern = likePrefix(options.prefix);
+    }
+    if (options.glob) {
+      conditions.push('k GLOB $glob');
+      params.glob = options.glob;
+    }
+    return conditions.join(' AND ');
+  }
+
+  /**
+   * Find entries whose JSON value matches a predicate at a path, evaluated in SQL with json_extract.
+   * Values written through Keyv are wrapped in an envelope, so paths usually start with `$.value`.
+   * Respects namespace filtering if the instance namespace is set.
+   *
+   * @example
+   * ```typescript
+   * const failed = await store.query('$.value.status', 'failed');
+   * const large = await store.query('$.value.size', { op: '>', value: 1024 });
+   * ```
+   */
+  async query<Value>(jsonPath: string, predicate: KeyvDuckDBJsonPredicate): Promise<Array<[string, Value]>> {
+    return this.findWhere<Value>({ [jsonPath]: predicate });
+  }
+
+  /**
+   * Find entries whose JSON value matches every path/predicate pair in `filters`.
+   * @returns matching [key, value] pairs ordered by key
+   */
+  async findWhere<Value>(filters: Record<string, KeyvDuckDBJsonPredicate>, options: { limit?: number } = {}): Promise<Array<[string, Value]>> {
+    const paths = Object.keys(filters);
+    if (paths.length === 0) throw new InvalidArgumentError('at least one filter required');
+    this.beginOperation();
+    try {
       await this.getConnection(); // Ensure connection exists for getTableRef
-      const placeholders = keys.map((_, i) => `$k${i}`).join(',');
-      const params: Record<string, string> = {};
-      keys.forEach((k, i) => {
-        params[`k${i}`] = k;
+      const params: Record<string, DuckDBValue> = { now: Date.now() };
+      const conditions = ['(expires IS NULL OR expires > $now)'];
+      const namespaceCondition = this.namespace ? this.namespaceCondition(this.namespace, params) : undefined;
+      if (namespaceCondition) conditions.push(namespaceCondition);
+      paths.forEach((jsonPath, i) => {
+        conditions.push(this.jsonCondition(jsonPath, filters[jsonPath], params, i));
       });
-      const rows = await this.all<{ k: string }>(`SELECT k FROM ${this.getTableRef()} WHERE k IN (${placeholders})`, params);
-      const existsSet = new Set(rows.map((r) => r.k));
-      return keys.map((key) => existsSet.has(key));
+      let sql = `SELECT k, v FROM ${this.getTableRef()} WHERE ${conditions.join(' AND ')} ORDER BY k`;
+      if (options.limit !== undefined) {
+        sql += ' LIMIT $limit';
+        params.limit = options.limit;
+      }
+      const rows = await this.all<{ k: string; v: string }>({ name: 'findWhere' }, sql, params);
+      return rows.map((row) => [row.k, row.v as Value]);
     } finally {
       this.endOperation();
     }
   }
 
+  /**
+   * Build the SQL condition for one JSON path predicate, adding its parameters to `params`
+   */
+  private jsonCondition(jsonPath: string, predicate: KeyvDuckDBJsonPredicate, params: Record<string, DuckDBValue>, index: number): string {
+    const pathParam = `p${index}`;
+    const valueParam = `x${index}`;
+    params[pathParam] = jsonPath;
+    const extracted = `json_extract(v, $${pathParam})`;
+
+    const { op, value } = predicate !== null && typeof predicate === 'object' ? (predicate as { op: string; value?: KeyvDuckDBJsonScalar }) : { op: '=', value: predicate };
+    if (op === 'exists') return `${extracted} IS NOT NULL`;
+    if (op === '=' || op === '!=') {
+      // JSON values compare by their minified text, which JSON.stringify also produces
+      params[valueParam] = JSON.stringify(value);
+      return `${extracted} ${op} CAST($${valueParam} AS JSON)`;
+    }
+    if (!['<', '<=', '>', '>='].includes(op)) throw new InvalidArgumentError(`unsupported operator ${op}`);
+    if (typeof value === 'number') {
+      params[valueParam] = value;
+      return `(json_type(v, $${pathParam}) IN ('BIGINT', 'UBIGINT', 'DOUBLE') AND CAST(${extracted} AS DOUBLE) ${op} $${valueParam})`;
+    }
+    if (typeof value === 'string') {
+      params[valueParam] = value;
+      return `(json_type(v, $${pathParam}) = 'VARCHAR' AND json_extract_string(v, $${pathParam}) ${op} $${valueParam})`;
+    }
+    throw new InvalidArgumentError(`operator ${op} requires a number or string value`);
+  }
+
   /**
    * Remove all stored values from the store.
    * Respects namespace filtering if namespace is set.
    */
   async clear(): Promise<void> {
-    this.beginOperation();
+    this.beginOperation(true);
     try {
-      await this.getConnection(); // Ensure connection exists for getTableRef
-      if (this.namespace) {
-        // Clear only keys matching the namespace
-        await this.run(`DELETE FROM ${this.getTableRef()} WHERE k LIKE $pattern`, { pattern: `${this.namespace}:%` });
-      } else {
-        // Clear all keys
-        await this.run(`DELETE FROM ${this.getTableRef()}`);
-      }
+      const tables = await this.scopeTables();
+      const params: Record<string, DuckDBValue> = {};
+      // Clear only keys in the namespace (the namespace's own table with namespaceStrategy 'table'), or all keys
+      const namespaceCondition = this.namespace ? this.namespaceCondition(this.namespace, params) : undefined;
+      await this.execute({ name: 'clear', rows: (count: number) => count }, (conn) =>
+        this.withTransaction(conn, async () => {
+          let count = 0;
+          for (const table of tables) count += (await conn.run(`DELETE FROM ${this.qualifiedTable(table)}${namespaceCondition ? ` WHERE ${namespaceCondition}` : ''}`, params)).rowsChanged;
+          return count;
+        })
+      );
     } finally {
       this.endOperation();
     }
@@ -378,28 +1619,466 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
   /**
    * Iterate through all keys in the store.
    * Respects namespace filtering if namespace parameter or instance namespace is set.
+   * Rows are fetched in pages of iterationBatchSize rather than loading the whole table.
    * KeyvStoreAdapter interface: iterator?<Value>(namespace?: string): AsyncGenerator<Array<string | Awaited<Value> | undefined>, void>
    */
   async *iterator<Value>(namespace?: string): AsyncGenerator<[string, Value], void> {
+    for await (const row of this.scan<{ k: string; v: string }>('iterator', 'k, v', namespace)) {
+      yield [row.k, row.v as Value];
+    }
+  }
+
+  /**
+   * Iterate through live entries with their metadata, in key order.
+   * Uses the same namespace filtering and paging as iterator(); reads are not counted as accesses.
+   */
+  async *iteratorWithMeta<Value>(namespace?: string): AsyncGenerator<KeyvDuckDBEntry<Value>, void> {
+    for await (const row of this.scan<MetaRow>('iteratorWithMeta', META_COLUMNS, namespace)) {
+      yield toEntry<Value>(row);
+    }
+  }
+
+  /**
+   * Page through live rows in key order, selecting `columns` (which must include k); `name` is reported to onOperation
+   */
+  private async *scan<R extends { k: string }>(name: string, columns: string, namespace?: string): AsyncGenerator<R, void> {
     this.beginOperation();
     try {
-      await this.getConnection(); // Ensure connection exists for getTableRef
       const ns = namespace ?? this.namespace;
+      const source = this.entrySource(await this.scopeTables(ns));
+      const now = Date.now();
 
-      if (ns) {
-        // Filter by namespace
-        const pattern = `${ns}:%`;
-        const rows = await this.all<{ k: string; v: string }>(`SELECT k, v FROM ${this.getTableRef()} WHERE k LIKE $pattern ORDER BY k`, { pattern });
-        for (const row of rows) {
-          yield [row.k, row.v as Value];
+      // Keyset pagination: each page resumes after the last key seen, so memory stays bounded
+      // by the batch size and breaking out of the loop stops fetching further pages
+      let after: string | undefined;
+      while (true) {
+        const conditions = ['(expires IS NULL OR expires > $now)'];
+        const params: Record<string, DuckDBValue> = { now, limit: this.iterationBatchSize };
+        const namespaceCondition = ns ? this.namespaceCondition(ns, params) : undefined;
+        if (namespaceCondition) conditions.push(namespaceCondition);
+        if (after !== undefined) {
+          conditions.push('k > $after');
+          params.after = after;
         }
-      } else {
-        // Return all keys
-        const rows = await this.all<{ k: string; v: string }>(`SELECT k, v FROM ${this.getTableRef()} ORDER BY k`);
+        const rows = await this.all<R>({ name }, `SELECT ${columns} FROM ${source} WHERE ${conditions.join(' AND ')} ORDER BY k LIMIT $limit`, params);
         for (const row of rows) {
-          yield [row.k, row.v as Value];
+          yield row;
+        }
+        if (rows.length < this.iterationBatchSize) break;
+        after = rows[rows.length - 1].k;
+      }
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Run a group of reads and writes atomically.
+   * The callback runs inside a BEGIN/COMMIT on the serialized operation queue; the transaction is
+   * rolled back if the callback throws. Use the provided `tx` (not the store) inside the callback,
+   * since store methods queue behind the transaction and would wait for it forever.
+   * With namespaceStrategy 'table', each key's namespace table must already be open (used by the store
+   * outside a transaction), since tables cannot be created inside it; other keys reject with SchemaError.
+   *
+   * @example
+   * ```typescript
+   * await store.transaction(async (tx) => {
+   *   await tx.set('token:current', next);
+   *   await tx.delete('token:previous');
+   * });
+   * ```
+   */
+  async transaction<T>(callback: (tx: KeyvDuckDBTransaction) => Promise<T>): Promise<T> {
+    this.beginOperation();
+    try {
+      await this.getConnection(); // Ensure connection exists for getTableRef
+      // Tables cannot be created inside the transaction, so a key's table must already be open
+      const tableRef = (key: string): string => {
+        const ns = this.namespaceOf(key);
+        const table = this.tableName(ns);
+        if (!this.preparedTables.has(table)) throw new SchemaError(`table ${table} for key ${key} is not open; use its namespace outside the transaction first`);
+        return this.getTableRef(ns);
+      };
+      // Never re-run the callback: it may have side effects outside the database
+      return await this.execute({ name: 'transaction', retry: false }, async (conn) => {
+        let active = true;
+        const all = async <R>(sql: string, params: Record<string, DuckDBValue>): Promise<R[]> => {
+          if (!active) throw new TransactionCompletedError();
+          const result = await conn.runAndReadAll(sql, params);
+          return result.getRowObjects() as R[];
+        };
+        const tx: KeyvDuckDBTransaction = {
+          get: async <Value>(key: string) => {
+            this.validateKey(key);
+            const rows = await all<{ v: string }>(`SELECT v FROM ${tableRef(key)} WHERE k = $key AND (expires IS NULL OR expires > $now)`, { key, now: Date.now() });
+            return rows[0]?.v as Value | undefined;
+          },
+          set: async (key, value, ttl) => {
+            this.assertWritable();
+            this.validateKey(key);
+            const stored = typeof value === 'string' ? value : JSON.stringify(value);
+            await all(this.upsertSql(tableRef(key), 'VALUES ($key, $value, $expires, $now, $now, 0, $ns)'), { key, value: stored, expires: this.expiresAt(ttl), now: Date.now(), ns: this.namespaceOf(key) });
+            return true;
+          },
+          delete: async (key) => {
+            this.assertWritable();
+            this.validateKey(key);
+            const rows = await all<{ k: string; expires: bigint | null }>(`DELETE FROM ${tableRef(key)} WHERE k = $key RETURNING k, expires`, { key });
+            const now = BigInt(Date.now());
+            return rows.some((row) => row.expires === null || row.expires > now);
+          },
+          has: async (key) => {
+            this.validateKey(key);
+            const rows = await all<{ count: bigint }>(`SELECT COUNT(*) as count FROM ${tableRef(key)} WHERE k = $key AND (expires IS NULL OR expires > $now)`, { key, now: Date.now() });
+            return (rows[0]?.count ?? 0n) > 0n;
+          },
+        };
+
+        try {
+          return await this.withTransaction(conn, () => callback(tx));
+        } finally {
+          active = false;
+        }
+      });
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Run `operation` between BEGIN and COMMIT on `conn`, rolling back if it throws.
+   * Callers must already hold the operation queue.
+   */
+  private async withTransaction<T>(conn: DuckDBConnection, operation: () => Promise<T>): Promise<T> {
+    await conn.run('BEGIN TRANSACTION');
+    try {
+      const result = await operation();
+      await conn.run('COMMIT');
+      return result;
+    } catch (err) {
+      try {
+        await conn.run('ROLLBACK');
+      } catch {
+        // Ignore rollback errors (e.g. the transaction was already aborted); surface the original error
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Export live entries to a Parquet, CSV or newline-delimited JSON file using DuckDB COPY.
+   * Exported rows have columns k, v and expires, matching what importFrom() reads.
+   * @returns the number of entries exported
+   */
+  async exportTo(file: string, options: KeyvDuckDBExportOptions = {}): Promise<number> {
+    const format = resolveFileFormat(file, options.format);
+    this.beginOperation();
+    try {
+      const ns = options.namespace ?? this.namespace;
+      const tables = await this.scopeTables(ns);
+      await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+      const params: Record<string, DuckDBValue> = { now: Date.now() };
+      let where = '(expires IS NULL OR expires > $now)';
+      const namespaceCondition = ns ? this.namespaceCondition(ns, params) : undefined;
+      if (namespaceCondition) where += ` AND ${namespaceCondition}`;
+      const copyOptions = format === 'parquet' ? 'FORMAT parquet' : format === 'csv' ? 'FORMAT csv, HEADER' : 'FORMAT json';
+      // COPY ... TO does not accept a parameter for the target, so it is quoted as a literal
+      return await this.run({ name: 'exportTo' }, `COPY (SELECT k, v, expires FROM ${this.entrySource(tables)} WHERE ${where} ORDER BY k) TO ${quoteLiteral(file)} (${copyOptions})`, params);
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Import entries from a file written by exportTo() (or any file with k, v and expires columns).
+   * Runs in a single transaction; in 'replace' mode the store's namespace (or, without one, the whole store) is cleared first.
+   * With namespaceStrategy 'table' each entry is imported into the table of its namespace.
+   * @returns the number of entries imported
+   */
+  async importFrom(file: string, options: KeyvDuckDBImportOptions = {}): Promise<number> {
+    const format = resolveFileFormat(file, options.format);
+    this.beginOperation(true);
+    try {
+      const tables = await this.scopeTables();
+      const columns = `{'k': 'VARCHAR', 'v': '${this.valueType === 'json' ? 'JSON' : 'VARCHAR'}', 'expires': 'BIGINT'}`;
+      const source = format === 'parquet' ? 'read_parquet($file)' : format === 'csv' ? `read_csv($file, header = true, columns = ${columns})` : `read_json($file, format = 'newline_delimited', columns = ${columns})`;
+      // Keys Keyv prefixed with the store's namespace belong to it; others take the text before the first ':'
+      const ns = `CASE WHEN starts_with(k, $prefix) THEN $namespace WHEN strpos(k, ':') > 0 THEN split_part(k, ':', 1) ELSE '' END`;
+      const params: Record<string, DuckDBValue> = { file, prefix: this.namespace ? `${this.namespace}:` : null, namespace: this.namespace ?? null };
+      // With namespaceStrategy 'table' each row goes to the table of its namespace, as in setMany()
+      let namespaces = [this.namespace ?? ''];
+      if (this.namespaceStrategy === 'table') {
+        const conn = await this.openConnection();
+        const rows = await this.queueOperation(async () => (await conn.runAndReadAll(`SELECT DISTINCT ${ns} AS ns FROM ${source}`, params)).getRowObjects() as Array<{ ns: string }>);
+        namespaces = rows.map((row) => row.ns);
+      }
+      for (const namespace of namespaces) await this.getConnection(namespace);
+      return await this.execute({ name: 'importFrom', rows: (imported: number) => imported }, (conn) =>
+        this.withTransaction(conn, async () => {
+          if (options.mode === 'replace') {
+            // Replace only the store's namespace, matching what exportTo() writes
+            const deleteParams: Record<string, DuckDBValue> = {};
+            const namespaceCondition = this.namespace ? this.namespaceCondition(this.namespace, deleteParams) : undefined;
+            for (const table of tables) await conn.run(`DELETE FROM ${this.qualifiedTable(table)}${namespaceCondition ? ` WHERE ${namespaceCondition}` : ''}`, deleteParams);
+          }
+          let imported = 0;
+          for (const namespace of namespaces) {
+            const where = this.namespaceStrategy === 'table' ? ` WHERE ${ns} = $target` : '';
+            const result = await conn.run(`INSERT OR REPLACE INTO ${this.getTableRef(namespace)} (k, v, expires, created_at, updated_at, last_accessed_at, hit_count, ns) SELECT k, v, expires, $now, $now, NULL, 0, ${ns} FROM ${source}${where}`, {
+              ...params,
+              now: Date.now(),
+              ...(where ? { target: namespace } : {}),
+            });
+            imported += result.rowsChanged;
+          }
+          return imported;
+        })
+      );
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Back up the live database to `destPath` without closing the store.
+   * Checkpoints, then copies every table into a freshly attached database with COPY FROM DATABASE,
+   * serialized behind the operation queue. The copy is written to a temporary file and renamed into
+   * place, so an existing backup is only replaced by a complete one.
+   * Attaching the temporary file is a write, so read-only stores reject with ReadOnlyError.
+   */
+  async backup(destPath: string, options: KeyvDuckDBBackupOptions = {}): Promise<void> {
+    const id = ++backupCounter;
+    const tmpPath = `${destPath}.tmp-${process.pid}-${id}`;
+    const alias = `keyv_backup_${id}`;
+    this.beginOperation(true);
+    try {
+      // A store that fell back to read-only only knows it once connected
+      await this.openConnection();
+      this.assertWritable();
+      const backupKey = options.encryptionKey === null ? undefined : await resolveEncryptionKey(options.encryptionKey ?? this.encryptionKey);
+      await fs.mkdir(path.dirname(path.resolve(destPath)), { recursive: true });
+
+      // Not re-run after a fatal error: a partial attach of the temporary file may be left behind
+      await this.execute({ name: 'backup', retry: false }, async (conn) => {
+        const encrypted = isEncryptedConnection(conn);
+        let source = 'store';
+        if (!encrypted) {
+          const result = await conn.runAndReadAll('SELECT current_database() AS db');
+          source = (result.getRowObjects()[0] as { db: string }).db;
+        }
+        await conn.run(encrypted ? 'CHECKPOINT store' : 'CHECKPOINT');
+
+        const keyOption = backupKey ? ` (ENCRYPTION_KEY ${quoteLiteral(backupKey)})` : '';
+        await conn.run(`ATTACH ${quoteLiteral(tmpPath)} AS ${alias}${keyOption}`);
+        try {
+          await conn.run(`COPY FROM DATABASE ${quoteIdentifier(source)} TO ${alias}`);
+        } finally {
+          await conn.run(`DETACH ${alias}`);
         }
+      });
+      await fs.rename(tmpPath, destPath);
+    } catch (err) {
+      await fs.rm(tmpPath, { force: true }).catch(() => {});
+      throw err;
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Restore a backup over `destPath` after checking that the backup opens (with its key, if encrypted).
+   * No store may have `destPath` open while restoring; dispose them first (throws DatabaseLockedError otherwise).
+   */
+  static async restore(backupPath: string, destPath: string, options: KeyvDuckDBRestoreOptions = {}): Promise<void> {
+    if (isDatabaseOpen(destPath)) throw new DatabaseLockedError(`database ${destPath} is open; dispose its stores first`);
+    await validateDatabase(backupPath, await resolveEncryptionKey(options.encryptionKey));
+
+    await fs.mkdir(path.dirname(path.resolve(destPath)), { recursive: true });
+    const tmpPath = `${destPath}.restore-${process.pid}`;
+    try {
+      await fs.copyFile(backupPath, tmpPath);
+      await fs.rename(tmpPath, destPath);
+    } catch (err) {
+      await fs.rm(tmpPath, { force: true }).catch(() => {});
+      throw err;
+    }
+    // A WAL left from the replaced database would be replayed against the restored file. It is only removed
+    // once the rename succeeded, so a failed restore leaves the original database and its WAL intact.
+    await fs.rm(`${destPath}.wal`, { force: true });
+  }
+
+  /**
+   * Re-encrypt a database file with a new key.
+   * No store may have the file open; dispose them first.
+   */
+  static async rotateKey(dbPath: string, oldKey: KeyvDuckDBEncryptionKey, newKey: KeyvDuckDBEncryptionKey): Promise<void> {
+    const from = await resolveEncryptionKey(oldKey);
+    const to = await resolveEncryptionKey(newKey);
+    if (!from || !to) throw new EncryptionKeyError('oldKey and newKey required');
+    await KeyvDuckDB.rewriteDatabase(dbPath, from, to);
+  }
+
+  /**
+   * Encrypt an unencrypted database file in place.
+   * No store may have the file open; dispose them first.
+   */
+  static async encryptDatabase(dbPath: string, key: KeyvDuckDBEncryptionKey): Promise<void> {
+    const resolved = await resolveEncryptionKey(key);
+    if (!resolved) throw new EncryptionKeyError('key required');
+    await KeyvDuckDB.rewriteDatabase(dbPath, undefined, resolved);
+  }
+
+  /**
+   * Decrypt an encrypted database file in place.
+   * No store may have the file open; dispose them first.
+   */
+  static async decryptDatabase(dbPath: string, key: KeyvDuckDBEncryptionKey): Promise<void> {
+    const resolved = await resolveEncryptionKey(key);
+    if (!resolved) throw new EncryptionKeyError('key required');
+    await KeyvDuckDB.rewriteDatabase(dbPath, resolved, undefined);
+  }
+
+  /**
+   * Copy a database into a temporary file with new encryption settings, check the copy opens,
+   * then atomically rename it over the original. On any failure the original file is left untouched.
+   */
+  private static async rewriteDatabase(dbPath: string, fromKey: string | undefined, toKey: string | undefined): Promise<void> {
+    if (isDatabaseOpen(dbPath)) throw new DatabaseLockedError(`database ${dbPath} is open; dispose its stores first`);
+    const tmpPath = `${dbPath}.rewrite-${process.pid}`;
+    try {
+      await fs.rm(tmpPath, { force: true });
+      await copyDatabase(dbPath, fromKey, tmpPath, toKey);
+      await validateDatabase(tmpPath, toKey);
+      await fs.rename(tmpPath, dbPath);
+      // The source was read with its WAL applied, so any WAL left beside it is now stale
+      await fs.rm(`${dbPath}.wal`, { force: true });
+    } catch (err) {
+      await fs.rm(tmpPath, { force: true }).catch(() => {});
+      await fs.rm(`${tmpPath}.wal`, { force: true }).catch(() => {});
+      throw err;
+    }
+  }
+
+  /**
+   * Evict entries until the store is within maxEntries and maxBytes, in batches on the operation queue.
+   * Rows are ranked from most to least worth keeping by the eviction policy (expired rows last); those
+   * beyond the entry limit or past the byte limit on the running total are deleted. Emits 'evict'.
+   * With namespaceStrategy 'table' the limits apply to all namespace tables together.
+   */
+  private async evict(): Promise<void> {
+    if (this.maxEntries === undefined && this.maxBytes === undefined) return;
+    const tables = await this.entryTables();
+    if (tables.length === 0) return;
+    // Rows of all tables ranked together, tagged with the index of their table
+    const rows = `(${tables.map((table, i) => `SELECT ${i} AS t, k, v, expires, created_at, updated_at, last_accessed_at, hit_count FROM ${this.qualifiedTable(table)}`).join(' UNION ALL ')})`;
+    const size = 'strlen(k) + COALESCE(strlen(CAST(v AS VARCHAR)), 0)';
+    const recency = 'COALESCE(last_accessed_at, updated_at, created_at, 0) DESC';
+    const keepOrder = this.evictionPolicy === 'lfu' ? `COALESCE(hit_count, 0) DESC, ${recency}` : this.evictionPolicy === 'fifo' ? 'COALESCE(created_at, 0) DESC' : recency;
+    const params: Record<string, DuckDBValue> = { maxEntries: this.maxEntries ?? null, maxBytes: this.maxBytes ?? null, batch: EVICTION_BATCH_SIZE };
+
+    const keys = await this.execute({ name: 'evict', flush: false, rows: (evicted: string[]) => evicted.length }, async (conn) => {
+      params.now = Date.now();
+      const totals = (await conn.runAndReadAll(`SELECT COUNT(*) AS entries, COALESCE(SUM(${size}), 0) AS bytes FROM ${rows}`)).getRowObjects()[0] as { entries: bigint; bytes: bigint | number };
+      const overEntries = this.maxEntries !== undefined && Number(totals.entries) > this.maxEntries;
+      const overBytes = this.maxBytes !== undefined && Number(totals.bytes) > this.maxBytes;
+      if (!overEntries && !overBytes) return [];
+
+      const evicted: string[] = [];
+      while (true) {
+        const batch = await this.withTransaction(conn, async () => {
+          const result = await conn.runAndReadAll(
+            `SELECT t, k FROM (
+               SELECT t, k, ROW_NUMBER() OVER w AS rank, SUM(${size}) OVER w AS running_bytes FROM ${rows}
+               WINDOW w AS (ORDER BY (expires IS NOT NULL AND expires <= $now), ${keepOrder}, k, t ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)
+             ) WHERE rank > $maxEntries OR running_bytes > $maxBytes
+             LIMIT $batch`,
+            params
+          );
+          const selected = result.getRowObjects() as Array<{ t: number; k: string }>;
+          for (const [i, table] of tables.entries()) {
+            const tableKeys = selected.filter((row) => row.t === i).map((row) => row.k);
+            if (tableKeys.length > 0) await this.forKeys(conn, tableKeys, async (keySet, keyParams) => [(await conn.run(`DELETE FROM ${this.qualifiedTable(table)} WHERE k IN (${keySet})`, keyParams)).rowsChanged]);
+          }
+          return selected;
+        });
+        for (const row of batch) evicted.push(row.k);
+        if (batch.length < EVICTION_BATCH_SIZE) return evicted;
       }
+    });
+    if (keys.length > 0) {
+      const event: KeyvDuckDBEvictEvent = { keys };
+      this.emit('evict', event);
+    }
+  }
+
+  /**
+   * Delete all expired entries from the store.
+   * Called periodically when sweepInterval is set; emits a 'sweep' event with a summary.
+   * @returns the number of entries deleted
+   */
+  async sweep(): Promise<number> {
+    this.beginOperation(true);
+    try {
+      const tables = await this.entryTables();
+      const start = Date.now();
+      const deleted = await this.execute({ name: 'sweep', rows: (count: number) => count }, async (conn) => {
+        let count = 0;
+        for (const table of tables) count += (await conn.run(`DELETE FROM ${this.qualifiedTable(table)} WHERE expires IS NOT NULL AND expires <= $now`, { now: start })).rowsChanged;
+        return count;
+      });
+      const result: KeyvDuckDBSweepResult = { deleted, duration: Date.now() - start };
+      this.emit('sweep', result);
+      return result.deleted;
+    } finally {
+      this.endOperation();
+    }
+  }
+
+  /**
+   * Report entry counts, value sizes, file sizes and configuration for monitoring.
+   * Counts and sizes are computed with aggregate SQL over the whole table, across all namespaces
+   * (with namespaceStrategy 'table', over the base table and every namespace table).
+   */
+  async stats(): Promise<KeyvDuckDBStats> {
+    this.beginOperation();
+    try {
+      const tables = await this.entryTables();
+      const rows = tables.length > 0 ? `(${tables.map((table) => `SELECT v, expires, ns FROM ${this.qualifiedTable(table)}`).join(' UNION ALL ')})` : '(SELECT NULL AS v, NULL::BIGINT AS expires, NULL AS ns WHERE false)';
+      const live = '(expires IS NULL OR expires > $now)';
+      const size = 'COALESCE(strlen(CAST(v AS VARCHAR)), 0)';
+
+      const { totals, namespaces, schemaVersion, encrypted } = await this.execute({ name: 'stats' }, async (conn) => {
+        const params = { now: Date.now() };
+        const totalsResult = await conn.runAndReadAll(
+          `SELECT COUNT(*) FILTER (WHERE ${live}) AS entries, COUNT(*) FILTER (WHERE NOT ${live}) AS expired,
+                  COALESCE(SUM(${size}) FILTER (WHERE ${live}), 0) AS bytes, COALESCE(MAX(${size}) FILTER (WHERE ${live}), 0) AS max_bytes
+           FROM ${rows}`,
+          params
+        );
+        const namespaceResult = await conn.runAndReadAll(`SELECT COALESCE(ns, '') AS ns, COUNT(*) AS count FROM ${rows} WHERE ${live} GROUP BY ALL ORDER BY ns`, params);
+        return {
+          totals: totalsResult.getRowObjects()[0] as { entries: bigint; expired: bigint; bytes: bigint | number; max_bytes: bigint | number },
+          namespaces: namespaceResult.getRowObjects() as Array<{ ns: string; count: bigint }>,
+          schemaVersion: (await readSchemaVersion(conn, this.schemaContext(conn, tables[0] ?? this.tableName()))).version,
+          encrypted: isEncryptedConnection(conn),
+        };
+      });
+
+      const fileSize = async (file: string) => (this.inMemory ? 0 : ((await fs.stat(file).catch(() => undefined))?.size ?? 0));
+      const entries = Number(totals.entries);
+      const valueBytes = Number(totals.bytes);
+      return {
+        entries,
+        expiredEntries: Number(totals.expired),
+        namespaces: Object.fromEntries(namespaces.map((row) => [row.ns, Number(row.count)])),
+        valueBytes,
+        averageValueBytes: entries > 0 ? valueBytes / entries : 0,
+        maxValueBytes: Number(totals.max_bytes),
+        fileBytes: await fileSize(this.dbFile),
+        walBytes: await fileSize(`${this.dbFile}.wal`),
+        encrypted,
+        schemaVersion,
+      };
     } finally {
       this.endOperation();
     }
@@ -414,23 +2093,43 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
 
   /**
    * Dispose of this store instance and release its connection.
+   * Buffered writes are flushed first; a failed flush is emitted as an 'error' event.
+   * A temporary store's file and WAL are deleted once the connection is closed.
    * After calling dispose(), this store instance cannot be used.
    * Returns a promise that resolves when the connection is fully closed.
    * Waits for any pending operations to complete before disposing.
    */
   async dispose(): Promise<void> {
     if (this.disposed) return; // Already disposed
+    this.stopSweeper();
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
 
-    // Wait for pending operations to complete
-    while (this.pendingOperations > 0) {
-      await new Promise((resolve) => setTimeout(resolve, 1));
+    // Wait for pending operations to complete, then write out anything they buffered (once: a failed flush
+    // drops its writes, and a store that became read-only would fail every flush)
+    let flushFailed = false;
+    while (this.pendingOperations > 0 || (this.writeBuffer.size > 0 && !flushFailed)) {
+      if (this.pendingOperations === 0) {
+        await this.flush().catch((error) => {
+          flushFailed = true;
+          this.emitError(error);
+        });
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      }
     }
 
     this.disposed = true;
+    if (this.releasing) await this.releasing;
     if (this.connection) {
-      await releaseConnection(this.connection);
+      await releaseConnection(this.connection, (error) => this.emitError(error));
       this.connection = undefined;
     }
+    if (this.temporary) {
+      for (const file of [this.dbFile, `${this.dbFile}.wal`]) await fs.rm(file, { force: true }).catch((error) => this.emitError(error));
+    }
   }
 
   /**
@@ -441,6 +2140,13 @@ export class KeyvDuckDB extends EventEmitter implements KeyvStoreAdapter {
     await this.dispose();
   }
 
+  /**
+   * Check if this store is read-only, either by option or because the lock strategy fell back to a read-only open
+   */
+  get isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
   /**
    * Check if this store instance has been disposed
    */
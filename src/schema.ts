@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Schema versioning and migrations for the key-value table
+ *
+ * The schema version of each table is recorded in a metadata table in the same database.
+ * Opening a store runs the migrations newer than the recorded version, in order, each in
+ * its own transaction. Tables created before versioning existed are detected from their columns.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { SchemaError } from './errors.ts';
+
+/**
+ * Where the table lives and how it is configured
+ */
+export interface SchemaContext {
+  /** Table name without a database qualifier */
+  table: string;
+  /** Database holding the table ('store' for encrypted files), or undefined for the default database */
+  database: string | undefined;
+  /** Column type used for values when the table is created */
+  valueType: 'text' | 'json';
+}
+
+/**
+ * One step in the schema history. `up` must be safe to run on a table that was already
+ * changed by hand or by a pre-versioning release (use IF NOT EXISTS).
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up(conn: DuckDBConnection, context: SchemaContext): Promise<void>;
+}
+
+/** Metadata table recording the schema version of every key-value table in the database */
+export const METADATA_TABLE = 'keyv_duckdb_schema';
+
+function qualify(context: SchemaContext, name: string): string {
+  return context.database ? `${context.database}.${name}` : name;
+}
+
+/**
+ * Ordered schema history; append new migrations with the next version number
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'create key-value table',
+    async up(conn, context) {
+      const valueColumnType = context.valueType === 'json' ? 'JSON' : 'TEXT';
+      await conn.run(`CREATE TABLE IF NOT EXISTS ${qualify(context, context.table)} (k TEXT PRIMARY KEY, v ${valueColumnType})`);
+    },
+  },
+  {
+    version: 2,
+    description: 'add expires column and index',
+    async up(conn, context) {
+      const tableRef = qualify(context, context.table);
+      await conn.run(`ALTER TABLE ${tableRef} ADD COLUMN IF NOT EXISTS expires BIGINT`);
+      await conn.run(`CREATE INDEX IF NOT EXISTS ${context.table}_expires_idx ON ${tableRef} (expires)`);
+    },
+  },
+  {
+    version: 3,
+    description: 'add entry metadata columns',
+    async up(conn, context) {
+      // Existing rows keep NULL timestamps (unknown) and start with no hits
+      const tableRef = qualify(context, context.table);
+      await conn.run(`ALTER TABLE ${tableRef} ADD COLUMN IF NOT EXISTS created_at BIGINT`);
+      await conn.run(`ALTER TABLE ${tableRef} ADD COLUMN IF NOT EXISTS updated_at BIGINT`);
+      await conn.run(`ALTER TABLE ${tableRef} ADD COLUMN IF NOT EXISTS last_accessed_at BIGINT`);
+      await conn.run(`ALTER TABLE ${tableRef} ADD COLUMN IF NOT EXISTS hit_count BIGINT DEFAULT 0`);
+    },
+  },
+  {
+    version: 4,
+    description: 'add namespace column and index',
+    async up(conn, context) {
+      // Existing rows take the namespace from their key prefix, as Keyv writes `${namespace}:${key}`
+      const tableRef = qualify(context, context.table);
+      await conn.run(`ALTER TABLE ${tableRef} ADD COLUMN IF NOT EXISTS ns TEXT DEFAULT ''`);
+      // DuckDB cannot build an index over uncommitted updates, so index before backfilling
+      await conn.run(`CREATE INDEX IF NOT EXISTS ${context.table}_ns_idx ON ${tableRef} (ns)`);
+      await conn.run(`UPDATE ${tableRef} SET ns = CASE WHEN strpos(k, ':') > 0 THEN split_part(k, ':', 1) ELSE '' END`);
+    },
+  },
+];
+
+/** Schema version written by this release */
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * List the columns of a table, or undefined if it does not exist
+ */
+async function tableColumns(conn: DuckDBConnection, context: SchemaContext, table: string): Promise<string[] | undefined> {
+  const database = context.database ? '$database' : 'current_database()';
+  const params = context.database ? { table, database: context.database } : { table };
+  const result = await conn.runAndReadAll(`SELECT column_name FROM duckdb_columns() WHERE database_name = ${database} AND schema_name = 'main' AND table_name = $table`, params);
+  const rows = result.getRowObjects() as Array<{ column_name: string }>;
+  return rows.length > 0 ? rows.map((row) => row.column_name) : undefined;
+}
+
+/**
+ * List the table and the namespace tables named after it (`<table>__<namespace>`) that exist, in name order
+ */
+export async function namespaceTables(conn: DuckDBConnection, context: SchemaContext): Promise<string[]> {
+  const database = context.database ? '$database' : 'current_database()';
+  const params = context.database ? { table: context.table, prefix: `${context.table}__`, database: context.database } : { table: context.table, prefix: `${context.table}__` };
+  const result = await conn.runAndReadAll(`SELECT table_name FROM duckdb_tables() WHERE database_name = ${database} AND schema_name = 'main' AND (table_name = $table OR starts_with(table_name, $prefix)) ORDER BY table_name`, params);
+  return (result.getRowObjects() as Array<{ table_name: string }>).map((row) => row.table_name);
+}
+
+/**
+ * Read the schema version of the table
+ * Returns 0 when the table does not exist, and infers the version of tables created before
+ * versioning from their columns. `recorded` tells whether the version came from the metadata table.
+ */
+export async function readSchemaVersion(conn: DuckDBConnection, context: SchemaContext): Promise<{ version: number; recorded: boolean }> {
+  if (await tableColumns(conn, context, METADATA_TABLE)) {
+    const result = await conn.runAndReadAll(`SELECT version FROM ${qualify(context, METADATA_TABLE)} WHERE table_name = $table`, { table: context.table });
+    const row = result.getRowObjects()[0] as { version: number } | undefined;
+    if (row) return { version: Number(row.version), recorded: true };
+  }
+
+  const columns = await tableColumns(conn, context, context.table);
+  if (!columns) return { version: 0, recorded: false };
+  return { version: columns.includes('expires') ? 2 : 1, recorded: false };
+}
+
+function newerVersionError(context: SchemaContext, version: number): SchemaError {
+  return new SchemaError(`table ${context.table} has schema version ${version}, newer than version ${SCHEMA_VERSION} supported by this release of keyv-duckdb`);
+}
+
+/**
+ * Create or upgrade the table to SCHEMA_VERSION, recording the version in the metadata table
+ * Refuses tables written by a newer release.
+ */
+export async function migrateSchema(conn: DuckDBConnection, context: SchemaContext): Promise<void> {
+  const { version, recorded } = await readSchemaVersion(conn, context);
+  if (version > SCHEMA_VERSION) throw newerVersionError(context, version);
+  if (version === SCHEMA_VERSION && recorded) return;
+
+  const metadataRef = qualify(context, METADATA_TABLE);
+  await conn.run(`CREATE TABLE IF NOT EXISTS ${metadataRef} (table_name TEXT PRIMARY KEY, version INTEGER NOT NULL, migrated_at BIGINT NOT NULL)`);
+  const record = (recordVersion: number) => conn.run(`INSERT OR REPLACE INTO ${metadataRef} (table_name, version, migrated_at) VALUES ($table, $version, $now)`, { table: context.table, version: recordVersion, now: Date.now() });
+
+  const pending = migrations.filter((migration) => migration.version > version);
+  if (pending.length === 0) {
+    // Pre-versioning table that is already current: only record its version
+    await record(SCHEMA_VERSION);
+    return;
+  }
+
+  for (const migration of pending) {
+    await conn.run('BEGIN TRANSACTION');
+    try {
+      await migration.up(conn, context);
+      await record(migration.version);
+      await conn.run('COMMIT');
+    } catch (err) {
+      try {
+        await conn.run('ROLLBACK');
+      } catch {
+        // Ignore rollback errors; surface the migration failure
+      }
+      throw new SchemaError(`migration ${migration.version} (${migration.description}) failed for table ${context.table}: ${(err as Error).message}`, { cause: err });
+    }
+  }
+}
+
+/**
+ * Refuse valueType 'json' for a table whose value column was created with another type, which would
+ * otherwise be kept silently (the column type is only chosen when the table is created)
+ */
+export async function checkValueType(conn: DuckDBConnection, context: SchemaContext): Promise<void> {
+  if (context.valueType !== 'json') return;
+  const database = context.database ? '$database' : 'current_database()';
+  const params = context.database ? { table: context.table, database: context.database } : { table: context.table };
+  const result = await conn.runAndReadAll(`SELECT data_type FROM duckdb_columns() WHERE database_name = ${database} AND schema_name = 'main' AND table_name = $table AND column_name = 'v'`, params);
+  const row = result.getRowObjects()[0] as { data_type: string } | undefined;
+  if (row && row.data_type !== 'JSON') throw new SchemaError(`table ${context.table} stores values as ${row.data_type}, so valueType 'json' cannot be used with it; use a new table or valueType 'text'`);
+}
+
+/**
+ * Check that a table opened read-only exists at SCHEMA_VERSION (read-only stores cannot migrate)
+ */
+export async function checkSchemaVersion(conn: DuckDBConnection, context: SchemaContext): Promise<void> {
+  const { version } = await readSchemaVersion(conn, context);
+  if (version === 0) throw new SchemaError(`table ${context.table} does not exist`);
+  if (version > SCHEMA_VERSION) throw newerVersionError(context, version);
+  if (version < SCHEMA_VERSION) throw new SchemaError(`table ${context.table} has schema version ${version}; open it read-write once to migrate it to version ${SCHEMA_VERSION}`);
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview SQL text helpers for values that cannot be passed as prepared statement parameters
+ */
+
+/**
+ * Quote a string as a SQL string literal, doubling embedded single quotes
+ * Use for statements that do not accept parameters (ATTACH, COPY ... TO)
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build a LIKE pattern matching keys that start with `prefix`, escaping LIKE wildcards
+ * Use with `LIKE $pattern ESCAPE '\\'`
+ */
+export function likePrefix(prefix: string): string {
+  return `${prefix.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/**
+ * Quote a SQL identifier (database, schema or table name), doubling embedded double quotes
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
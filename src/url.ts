@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Connection-string parsing for KeyvDuckDB
+ *
+ * Accepts Keyv-style URIs such as `duckdb:///var/cache/app.duckdb?table=cache&readOnly=true`
+ * so a store can be configured from a single string. Encryption keys are never placed in the
+ * URI itself; `encryptionKeyEnv` and `encryptionKeyFile` name where to read the key from.
+ */
+
+import path from 'node:path';
+import { MEMORY_PATH } from './connection-manager.ts';
+import { InvalidArgumentError } from './errors.ts';
+import { envKeyProvider, fileKeyProvider } from './key-providers.ts';
+import type { KeyvDuckDBOptions } from './keyv-duckdb.ts';
+
+/** URI scheme handled by KeyvDuckDB */
+export const URL_SCHEME = 'duckdb:';
+
+type ParameterType = 'string' | 'integer' | 'boolean' | readonly string[];
+
+/**
+ * Query parameters accepted in a URI and how their values are parsed
+ */
+const PARAMETERS: Record<string, ParameterType> = {
+  table: 'string',
+  keySize: 'integer',
+  readOnly: 'boolean',
+  temporary: 'boolean',
+  encryptionKeyEnv: 'string',
+  encryptionKeyFile: 'string',
+  sweepInterval: 'integer',
+  iterationBatchSize: 'integer',
+  batchSize: 'integer',
+  bulkThreshold: 'integer',
+  openPerOperation: 'boolean',
+  idleTimeout: 'integer',
+  trackAccess: 'boolean',
+  maxEntries: 'integer',
+  maxBytes: 'integer',
+  evictionPolicy: ['lru', 'lfu', 'fifo'],
+  valueType: ['text', 'json'],
+  namespaceStrategy: ['prefix', 'column', 'table'],
+};
+
+/**
+ * Options parsed from a URI, and the URI rewritten in normalized form
+ */
+export interface ParsedUrl {
+  options: KeyvDuckDBOptions;
+  url: string;
+}
+
+/**
+ * Check if a string is a duckdb:// URI rather than a plain file path
+ */
+export function isDuckDBUrl(value: string): boolean {
+  return value.slice(0, URL_SCHEME.length).toLowerCase() === URL_SCHEME;
+}
+
+function parseValue(name: string, type: ParameterType, value: string): string | number | boolean {
+  if (type === 'string') {
+    if (!value) throw new InvalidArgumentError(`duckdb URL parameter ${name} must not be empty`);
+    return value;
+  }
+  if (type === 'integer') {
+    if (!/^\d+$/.test(value)) throw new InvalidArgumentError(`duckdb URL parameter ${name} must be a non-negative integer, got '${value}'`);
+    return Number(value);
+  }
+  if (type === 'boolean') {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    throw new InvalidArgumentError(`duckdb URL parameter ${name} must be true or false, got '${value}'`);
+  }
+  if (!type.includes(value)) throw new InvalidArgumentError(`duckdb URL parameter ${name} must be one of ${type.join(', ')}, got '${value}'`);
+  return value;
+}
+
+/**
+ * Parse a `duckdb://<path>?<parameters>` URI into store options
+ *
+ * The path may be absolute (`duckdb:///abs/file.duckdb`), relative to the working directory
+ * (`duckdb://data/file.duckdb`), `:memory:`, or empty for the default path. Unknown, repeated
+ * or malformed parameters throw. The normalized URI has an absolute path and its parameters
+ * in a fixed order with canonical values, and parses back to the same options.
+ */
+export function parseUrl(url: string): ParsedUrl {
+  if (!isDuckDBUrl(url)) throw new InvalidArgumentError(`expected a ${URL_SCHEME}// URL, got '${url}'`);
+  const body = url.slice(URL_SCHEME.length);
+  if (!body.startsWith('//')) throw new InvalidArgumentError(`expected a ${URL_SCHEME}// URL, got '${url}'`);
+  const queryStart = body.indexOf('?');
+  const rawPath = decodeURIComponent(queryStart === -1 ? body.slice(2) : body.slice(2, queryStart));
+  const query = new URLSearchParams(queryStart === -1 ? '' : body.slice(queryStart + 1));
+
+  const values: Record<string, string | number | boolean> = {};
+  for (const [name, value] of query) {
+    if (name === 'encryptionKey') throw new InvalidArgumentError('duckdb URL must not contain the encryption key; use encryptionKeyEnv or encryptionKeyFile');
+    const type = PARAMETERS[name];
+    if (!type) throw new InvalidArgumentError(`unknown duckdb URL parameter ${name}`);
+    if (name in values) throw new InvalidArgumentError(`duckdb URL parameter ${name} is repeated`);
+    values[name] = parseValue(name, type, value);
+  }
+  if (values.encryptionKeyEnv !== undefined && values.encryptionKeyFile !== undefined) throw new InvalidArgumentError('duckdb URL cannot set both encryptionKeyEnv and encryptionKeyFile');
+
+  const { encryptionKeyEnv, encryptionKeyFile, ...rest } = values;
+  const options = rest as KeyvDuckDBOptions;
+  if (encryptionKeyEnv !== undefined) options.encryptionKey = envKeyProvider(encryptionKeyEnv as string);
+  if (encryptionKeyFile !== undefined) options.encryptionKey = fileKeyProvider(encryptionKeyFile as string);
+
+  let normalizedPath = '';
+  if (rawPath === MEMORY_PATH) normalizedPath = MEMORY_PATH;
+  else if (rawPath) normalizedPath = path.resolve(rawPath);
+  if (normalizedPath) options.path = normalizedPath;
+
+  const normalizedQuery = Object.keys(PARAMETERS)
+    .filter((name) => name in values)
+    .map((name) => `${name}=${encodeURIComponent(String(values[name]))}`)
+    .join('&');
+  const encodedPath = normalizedPath === MEMORY_PATH ? MEMORY_PATH : encodeURI(normalizedPath).replace(/[?#]/g, encodeURIComponent);
+  return { options, url: `${URL_SCHEME}//${encodedPath}${normalizedQuery ? `?${normalizedQuery}` : ''}` };
+}
@@ -0,0 +1,170 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, DatabaseLockedError, EncryptionKeyError, KeyvDuckDB, ReadOnlyError } from 'keyv-duckdb';
+
+describe('DuckDBStore Backup and Restore', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-backup-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('backs up a live store without closing it', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'live.duckdb'));
+    await store.set('token', 'secret');
+    const backupPath = path.join(tmpDir, 'backups', 'live.duckdb');
+
+    await store.backup(backupPath);
+
+    // Store keeps working after the backup
+    await store.set('after', 'backup');
+    assert.strictEqual(await store.get('token'), 'secret');
+    await store.dispose();
+
+    const restored = new KeyvDuckDB(backupPath);
+    assert.strictEqual(await restored.get('token'), 'secret');
+    assert.strictEqual(await restored.get('after'), undefined);
+    await restored.dispose();
+  });
+
+  it('replaces an existing backup file', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'live.duckdb'));
+    const backupPath = path.join(tmpDir, 'backup.duckdb');
+    await store.set('version', '1');
+    await store.backup(backupPath);
+    await store.set('version', '2');
+    await store.backup(backupPath);
+    await store.dispose();
+
+    const restored = new KeyvDuckDB(backupPath);
+    assert.strictEqual(await restored.get('version'), '2');
+    await restored.dispose();
+
+    const leftovers = (await fs.readdir(tmpDir)).filter((name) => name.includes('.tmp-'));
+    assert.deepStrictEqual(leftovers, []);
+  });
+
+  it('rejects a backup from a read-only store', async () => {
+    const file = path.join(tmpDir, 'live.duckdb');
+    const writer = new KeyvDuckDB(file);
+    await writer.set('token', 'secret');
+    await writer.dispose();
+
+    const reader = new KeyvDuckDB(file, { readOnly: true });
+    const backupPath = path.join(tmpDir, 'backup.duckdb');
+    await assert.rejects(reader.backup(backupPath), ReadOnlyError);
+    assert.strictEqual(await reader.get('token'), 'secret');
+    await reader.dispose();
+    assert.deepStrictEqual(await fs.readdir(tmpDir), ['live.duckdb']);
+  });
+
+  it('restores a backup over a database file', async () => {
+    const dbPath = path.join(tmpDir, 'main.duckdb');
+    const backupPath = path.join(tmpDir, 'backup.duckdb');
+
+    const store = new KeyvDuckDB(dbPath);
+    await store.set('state', 'good');
+    await store.backup(backupPath);
+    await store.set('state', 'corrupted');
+    await store.dispose();
+
+    await KeyvDuckDB.restore(backupPath, dbPath);
+
+    const reopened = new KeyvDuckDB(dbPath);
+    assert.strictEqual(await reopened.get('state'), 'good');
+    await reopened.dispose();
+  });
+
+  it('refuses to restore over a database a store has open', async () => {
+    const dbPath = path.join(tmpDir, 'main.duckdb');
+    const backupPath = path.join(tmpDir, 'backup.duckdb');
+    const store = new KeyvDuckDB(dbPath);
+    await store.set('state', 'good');
+    await store.backup(backupPath);
+    await store.set('state', 'live');
+
+    await assert.rejects(KeyvDuckDB.restore(backupPath, dbPath), DatabaseLockedError);
+    assert.strictEqual(await store.get('state'), 'live');
+    await store.dispose();
+  });
+
+  it('keeps the WAL when the restored file cannot be moved into place', async () => {
+    const backupPath = path.join(tmpDir, 'backup.duckdb');
+    const store = new KeyvDuckDB(backupPath);
+    await store.set('state', 'good');
+    await store.dispose();
+
+    // A non-empty directory at the destination makes the rename fail
+    const dbPath = path.join(tmpDir, 'occupied');
+    await fs.mkdir(path.join(dbPath, 'child'), { recursive: true });
+    await fs.writeFile(`${dbPath}.wal`, 'committed');
+    await assert.rejects(KeyvDuckDB.restore(backupPath, dbPath));
+    assert.strictEqual(await fs.readFile(`${dbPath}.wal`, 'utf8'), 'committed');
+  });
+
+  it('refuses to restore a file that is not a valid database', async () => {
+    const dbPath = path.join(tmpDir, 'main.duckdb');
+    const store = new KeyvDuckDB(dbPath);
+    await store.set('state', 'good');
+    await store.dispose();
+
+    const garbage = path.join(tmpDir, 'garbage.duckdb');
+    await fs.writeFile(garbage, 'not a database'.repeat(1000));
+    await assert.rejects(KeyvDuckDB.restore(garbage, dbPath), /not a valid DuckDB database/);
+    await assert.rejects(KeyvDuckDB.restore(path.join(tmpDir, 'missing.duckdb'), dbPath));
+
+    const reopened = new KeyvDuckDB(dbPath);
+    assert.strictEqual(await reopened.get('state'), 'good');
+    await reopened.dispose();
+  });
+
+  it('re-encrypts the backup with a different key', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'plain.duckdb'));
+    await store.set('token', 'secret');
+    const backupPath = path.join(tmpDir, 'encrypted-backup.duckdb');
+    await store.backup(backupPath, { encryptionKey: 'backup_key_32_characters_minimum!' });
+    await store.dispose();
+
+    const restored = new KeyvDuckDB(backupPath, { encryptionKey: 'backup_key_32_characters_minimum!' });
+    assert.strictEqual(await restored.get('token'), 'secret');
+    await restored.dispose();
+  });
+
+  it("encrypts the backup with the store's key by default", async () => {
+    const key = 'store_key_32_characters_minimum!!';
+    const store = new KeyvDuckDB(path.join(tmpDir, 'encrypted.duckdb'), { encryptionKey: key });
+    await store.set('token', 'secret');
+    const backupPath = path.join(tmpDir, 'default-backup.duckdb');
+    const plainPath = path.join(tmpDir, 'plain-backup.duckdb');
+    await store.backup(backupPath);
+    await store.backup(plainPath, { encryptionKey: null });
+    await store.dispose();
+
+    const withoutKey = new KeyvDuckDB(backupPath);
+    await assert.rejects(withoutKey.get('token'), EncryptionKeyError);
+    await withoutKey.dispose();
+
+    const restored = new KeyvDuckDB(backupPath, { encryptionKey: key });
+    assert.strictEqual(await restored.get('token'), 'secret');
+    await restored.dispose();
+
+    const plain = new KeyvDuckDB(plainPath);
+    assert.strictEqual(await plain.get('token'), 'secret');
+    await plain.dispose();
+  });
+});
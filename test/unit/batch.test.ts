@@ -0,0 +1,109 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBOperationEvent } from 'keyv-duckdb';
+
+const KEY = 'batch_key_32_characters_minimum!!';
+
+function entries(count: number): Array<{ key: string; value: string }> {
+  return Array.from({ length: count }, (_, i) => ({ key: `key${i}`, value: `value${i}` }));
+}
+
+describe('DuckDBStore Chunked Batch Operations', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-batch-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('splits batch operations into chunks', async () => {
+    const events: KeyvDuckDBOperationEvent[] = [];
+    const store = new KeyvDuckDB(path.join(tmpDir, 'chunks.duckdb'), { batchSize: 3, onOperation: (event) => events.push(event) });
+    const items = entries(10);
+    const keys = items.map((item) => item.key);
+    await store.setMany(items);
+
+    assert.deepStrictEqual(await store.getMany([...keys, 'missing']), [...items.map((item) => item.value), undefined]);
+    assert.deepStrictEqual(await store.hasMany(['key0', 'missing', 'key9']), [true, false, true]);
+    assert.strictEqual(await store.deleteMany(keys.slice(0, 7)), true);
+    assert.deepStrictEqual(await store.keys(), ['key7', 'key8', 'key9']);
+
+    assert.deepStrictEqual(
+      events.slice(0, 4).map(({ operation, keys, rows }) => ({ operation, keys, rows })),
+      [
+        { operation: 'setMany', keys: 10, rows: 10 },
+        { operation: 'getMany', keys: 11, rows: 10 },
+        { operation: 'hasMany', keys: 3, rows: 2 },
+        { operation: 'deleteMany', keys: 7, rows: 7 },
+      ]
+    );
+    await store.dispose();
+  });
+
+  it('applies all chunks of setMany in one transaction', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'atomic.duckdb'), { batchSize: 2, valueType: 'json' });
+    const items = [
+      { key: 'a', value: '1' },
+      { key: 'b', value: '2' },
+      { key: 'c', value: 'not json' },
+    ];
+    await assert.rejects(store.setMany(items));
+    assert.deepStrictEqual(await store.getMany(['a', 'b', 'c']), [undefined, undefined, undefined]);
+    await store.dispose();
+  });
+
+  it('loads large inputs through a temporary table', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'bulk.duckdb'), { bulkThreshold: 100 });
+    const items = entries(250).map((item, i) => ({ ...item, ttl: i === 0 ? 1 : undefined }));
+    const keys = items.map((item) => item.key);
+    await store.setMany(items);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const values = await store.getMany(keys);
+    assert.strictEqual(values[0], undefined);
+    assert.deepStrictEqual(
+      values.slice(1),
+      items.slice(1).map((item) => item.value)
+    );
+    assert.deepStrictEqual((await store.hasMany(keys)).filter(Boolean).length, 249);
+    assert.strictEqual(typeof (await store.getWithMeta('key1'))?.createdAt, 'number');
+
+    await store.deleteMany(keys.slice(0, 200));
+    assert.strictEqual(await store.count(), 50);
+    await store.dispose();
+  });
+
+  it('uses the bulk path on encrypted and read-only stores', async () => {
+    const file = path.join(tmpDir, 'encrypted.duckdb');
+    const items = entries(150);
+    const keys = items.map((item) => item.key);
+    const writer = new KeyvDuckDB(file, { encryptionKey: KEY, bulkThreshold: 100 });
+    await writer.setMany(items);
+    assert.deepStrictEqual(
+      await writer.getMany(keys),
+      items.map((item) => item.value)
+    );
+    await writer.dispose();
+
+    const reader = new KeyvDuckDB(file, { encryptionKey: KEY, readOnly: true, bulkThreshold: 100 });
+    assert.deepStrictEqual(
+      await reader.hasMany(keys),
+      keys.map(() => true)
+    );
+    await reader.dispose();
+  });
+});
@@ -0,0 +1,116 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import assert from 'assert';
+import { closeAllConnections, DatabaseLockedError, getConnectionCount, InvalidArgumentError, KeyValidationError, KeyvDuckDB, KeyvDuckDBDisposedError, KeyvDuckDBError, type KeyvDuckDBTransaction, SchemaError, TransactionCompletedError } from 'keyv-duckdb';
+
+describe('DuckDBStore Errors', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-errors-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('throws KeyvDuckDBDisposedError after dispose', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'disposed.duckdb'));
+    await store.dispose();
+    await assert.rejects(store.get('key'), (err: KeyvDuckDBDisposedError) => err instanceof KeyvDuckDBDisposedError && err instanceof KeyvDuckDBError && err.code === 'ERR_KEYV_DUCKDB_DISPOSED');
+  });
+
+  it('throws KeyValidationError for invalid keys', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'keys.duckdb'), { keySize: 4 });
+    await assert.rejects(store.set('', 'value'), KeyValidationError);
+    await assert.rejects(store.set('too-long', 'value'), (err: KeyValidationError) => err.code === 'ERR_KEYV_DUCKDB_KEY_VALIDATION');
+    await assert.rejects(store.getMany('a' as unknown as string[]), KeyValidationError);
+    await store.dispose();
+  });
+
+  it('throws InvalidArgumentError for invalid options and arguments', async () => {
+    const isInvalid = (err: InvalidArgumentError) => err instanceof InvalidArgumentError && err instanceof KeyvDuckDBError && err.code === 'ERR_KEYV_DUCKDB_INVALID_ARGUMENT';
+    assert.throws(() => new KeyvDuckDB({ temporary: true, path: path.join(tmpDir, 'a.duckdb') }), isInvalid);
+    assert.throws(() => new KeyvDuckDB(':memory:', { readOnly: true }), isInvalid);
+    assert.throws(() => new KeyvDuckDB(':memory:', { openPerOperation: true }), isInvalid);
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?keySize=big'), isInvalid);
+
+    const store = new KeyvDuckDB(path.join(tmpDir, 'arguments.duckdb'), { valueType: 'json' });
+    await assert.rejects(store.increment('counter', 1.5), isInvalid);
+    await assert.rejects(store.findWhere({}), isInvalid);
+    await assert.rejects(store.findWhere({ '$.n': { op: 'like' as '<', value: 1 } }), isInvalid);
+    await assert.rejects(store.exportTo(path.join(tmpDir, 'export.txt')), isInvalid);
+    await assert.rejects(store.importFrom(path.join(tmpDir, 'import.txt')), isInvalid);
+    await assert.rejects(store.deleteByPrefix(''), (err: KeyValidationError) => err instanceof KeyValidationError && err.code === 'ERR_KEYV_DUCKDB_KEY_VALIDATION');
+    await store.dispose();
+  });
+
+  it('throws TransactionCompletedError when a transaction is used after it ends', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'transaction.duckdb'));
+    const saved = await store.transaction(async (tx: KeyvDuckDBTransaction) => tx);
+    await assert.rejects(saved.get('key'), (err: TransactionCompletedError) => err instanceof TransactionCompletedError && err.code === 'ERR_KEYV_DUCKDB_TRANSACTION_COMPLETED');
+    await store.dispose();
+  });
+
+  it('throws SchemaError when the table cannot be created', async () => {
+    const file = path.join(tmpDir, 'schema.duckdb');
+    const instance = await DuckDBInstance.create(file);
+    const connection = await instance.connect();
+    await connection.run('CREATE VIEW keyv AS SELECT 1 AS k');
+    connection.closeSync();
+    instance.closeSync();
+
+    const store = new KeyvDuckDB(file);
+    await assert.rejects(store.get('key'), (err: SchemaError) => err instanceof SchemaError && err.code === 'ERR_KEYV_DUCKDB_SCHEMA' && err.cause instanceof Error);
+    assert.strictEqual(getConnectionCount(), 0);
+    await store.dispose();
+  });
+
+  it('throws DatabaseLockedError when another process holds the file', async () => {
+    const file = path.join(tmpDir, 'locked.duckdb');
+    const holder = `import { DuckDBInstance } from '@duckdb/node-api';
+const instance = await DuckDBInstance.create(${JSON.stringify(file)});
+await instance.connect();
+console.log('ready');
+process.stdin.on('end', () => process.exit(0)).resume();`;
+    const child = spawn(process.execPath, ['--input-type=module', '-e', holder], { stdio: ['pipe', 'pipe', 'inherit'] });
+    try {
+      await new Promise((resolve, reject) => {
+        child.stdout.once('data', resolve);
+        child.once('exit', reject);
+      });
+
+      const store = new KeyvDuckDB(file);
+      await assert.rejects(store.get('key'), (err: DatabaseLockedError) => err instanceof DatabaseLockedError && err.code === 'ERR_KEYV_DUCKDB_DATABASE_LOCKED');
+      await store.dispose();
+    } finally {
+      child.stdin.end();
+      await new Promise((resolve) => child.once('exit', resolve));
+    }
+  });
+
+  it("emits 'error' for background sweep failures", async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'sweep.duckdb'), { sweepInterval: 20 });
+    await store.set('key', 'value');
+    const failed = new Promise<Error>((resolve) => store.once('error', resolve));
+
+    // Break the table underneath the store so the next sweep fails
+    const { connection } = store as unknown as { connection: { run(sql: string): Promise<unknown> } };
+    await connection.run('DROP TABLE keyv');
+
+    assert.match((await failed).message, /keyv/);
+    await store.dispose();
+  });
+});
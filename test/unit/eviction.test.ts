@@ -0,0 +1,110 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBEvictEvent } from 'keyv-duckdb';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('DuckDBStore Eviction', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-eviction-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  /** Write keys one at a time so each gets a distinct timestamp */
+  async function fill(store: KeyvDuckDB, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await store.set(key, key);
+      await sleep(2);
+    }
+  }
+
+  it('evicts the oldest entries first with fifo', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'fifo.duckdb'), { maxEntries: 3, evictionPolicy: 'fifo' });
+    const events: KeyvDuckDBEvictEvent[] = [];
+    store.on('evict', (event) => events.push(event));
+
+    await fill(store, ['a', 'b', 'c']);
+    assert.strictEqual(events.length, 0);
+    await store.set('a', 'updated');
+    await store.set('d', 'd');
+
+    assert.deepStrictEqual(await store.keys(), ['b', 'c', 'd']);
+    assert.deepStrictEqual(events, [{ keys: ['a'] }]);
+    await store.dispose();
+  });
+
+  it('evicts the least recently used entry with lru', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'lru.duckdb'), { maxEntries: 3, trackAccess: true });
+    await fill(store, ['a', 'b', 'c']);
+    await store.get('a');
+    await sleep(2);
+    await store.set('d', 'd');
+
+    assert.deepStrictEqual(await store.keys(), ['a', 'c', 'd']);
+    await store.dispose();
+  });
+
+  it('evicts the least frequently used entry with lfu', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'lfu.duckdb'), { maxEntries: 3, trackAccess: true, evictionPolicy: 'lfu' });
+    await fill(store, ['a', 'b', 'c']);
+    await store.get('a');
+    await store.get('a');
+    await store.get('b');
+    await store.set('d', 'd');
+
+    // c has no hits; d has none either but is more recent
+    assert.deepStrictEqual(await store.keys(), ['a', 'b', 'd']);
+    await store.dispose();
+  });
+
+  it('keeps the total size within maxBytes', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'bytes.duckdb'), { maxBytes: 350 });
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await store.set(key, 'x'.repeat(100));
+      await sleep(2);
+    }
+
+    assert.deepStrictEqual(await store.keys(), ['b', 'c', 'd']);
+    await store.dispose();
+  });
+
+  it('evicts expired entries before live ones', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'expired.duckdb'), { maxEntries: 2, evictionPolicy: 'fifo' });
+    await store.set('old', 'live');
+    await store.set('short', 'lived', 10);
+    await sleep(20);
+    await store.set('new', 'live');
+
+    assert.deepStrictEqual(await store.keys(), ['new', 'old']);
+    await store.dispose();
+  });
+
+  it('evicts after setMany', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'bulk.duckdb'), { maxEntries: 10 });
+    let evicted: string[] = [];
+    store.on('evict', (event: KeyvDuckDBEvictEvent) => {
+      evicted = evicted.concat(event.keys);
+    });
+
+    await store.setMany(Array.from({ length: 25 }, (_, i) => ({ key: `k${String(i).padStart(2, '0')}`, value: String(i) })));
+    assert.strictEqual(await store.count(), 10);
+    assert.strictEqual(evicted.length, 15);
+    await store.dispose();
+  });
+});
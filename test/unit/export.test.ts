@@ -0,0 +1,140 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBFileFormat } from 'keyv-duckdb';
+
+describe('DuckDBStore Export and Import', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-export-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function seed(store: KeyvDuckDB): Promise<void> {
+    await store.setMany([
+      { key: 'users:1', value: { name: 'Alice' } },
+      { key: 'users:2', value: 'plain, "quoted" text' },
+      { key: 'posts:1', value: { title: 'Hello' }, ttl: 60_000 },
+    ]);
+  }
+
+  const formats: Array<[KeyvDuckDBFileFormat, string]> = [
+    ['parquet', 'dump.parquet'],
+    ['csv', 'dump.csv'],
+    ['ndjson', 'dump.ndjson'],
+  ];
+
+  for (const [format, fileName] of formats) {
+    it(`round-trips entries through ${format}`, async () => {
+      const source = new KeyvDuckDB(path.join(tmpDir, 'source.duckdb'));
+      await seed(source);
+      const file = path.join(tmpDir, 'exports', fileName);
+      assert.strictEqual(await source.exportTo(file), 3);
+      await source.dispose();
+
+      const target = new KeyvDuckDB(path.join(tmpDir, 'target.duckdb'));
+      assert.strictEqual(await target.importFrom(file), 3);
+      assert.deepStrictEqual(await target.keys(), ['posts:1', 'users:1', 'users:2']);
+      assert.strictEqual(await target.get('users:2'), 'plain, "quoted" text');
+      assert.deepStrictEqual(JSON.parse((await target.get<string>('users:1')) ?? ''), { name: 'Alice' });
+      await target.dispose();
+    });
+  }
+
+  it('exports only the requested namespace', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'namespaced.duckdb'));
+    await seed(store);
+    const file = path.join(tmpDir, 'users.parquet');
+    assert.strictEqual(await store.exportTo(file, { namespace: 'users' }), 2);
+    await store.dispose();
+  });
+
+  it('merges into or replaces existing data', async () => {
+    const source = new KeyvDuckDB(path.join(tmpDir, 'source.duckdb'));
+    await seed(source);
+    const file = path.join(tmpDir, 'dump.ndjson');
+    await source.exportTo(file);
+    await source.dispose();
+
+    const target = new KeyvDuckDB(path.join(tmpDir, 'target.duckdb'));
+    await target.set('users:1', 'stale');
+    await target.set('local', 'kept');
+
+    await target.importFrom(file, { mode: 'merge' });
+    assert.strictEqual(await target.count(), 4);
+    assert.strictEqual(await target.get('local'), 'kept');
+    assert.notStrictEqual(await target.get('users:1'), 'stale');
+
+    await target.importFrom(file, { mode: 'replace' });
+    assert.strictEqual(await target.count(), 3);
+    assert.strictEqual(await target.get('local'), undefined);
+    await target.dispose();
+  });
+
+  it('replaces only the namespace of a namespaced store', async () => {
+    const source = new KeyvDuckDB(path.join(tmpDir, 'source.duckdb'));
+    await seed(source);
+    const file = path.join(tmpDir, 'users.ndjson');
+    await source.exportTo(file, { namespace: 'users' });
+    await source.dispose();
+
+    const target = new KeyvDuckDB(path.join(tmpDir, 'target.duckdb'));
+    await target.setMany([
+      { key: 'users:3', value: 'stale' },
+      { key: 'posts:1', value: 'kept' },
+    ]);
+    target.namespace = 'users';
+    assert.strictEqual(await target.importFrom(file, { mode: 'replace' }), 2);
+    target.namespace = undefined;
+    assert.deepStrictEqual(await target.keys(), ['posts:1', 'users:1', 'users:2']);
+    await target.dispose();
+  });
+
+  it('imports each entry into its namespace table with the table strategy', async () => {
+    const source = new KeyvDuckDB(path.join(tmpDir, 'source.duckdb'), { namespaceStrategy: 'table' });
+    await source.setMany([
+      { key: 'a:1', value: 'one' },
+      { key: 'b:1', value: 'two' },
+    ]);
+    const file = path.join(tmpDir, 'tables.ndjson');
+    assert.strictEqual(await source.exportTo(file), 2);
+    await source.dispose();
+
+    const target = new KeyvDuckDB(path.join(tmpDir, 'target.duckdb'), { namespaceStrategy: 'table' });
+    await target.set('b:2', 'stale');
+    assert.strictEqual(await target.importFrom(file), 2);
+    assert.deepStrictEqual(await target.getMany(['a:1', 'b:1']), ['one', 'two']);
+
+    assert.strictEqual(await target.importFrom(file, { mode: 'replace' }), 2);
+    assert.deepStrictEqual(await target.keys(), ['a:1', 'b:1']);
+    await target.dispose();
+  });
+
+  it('leaves data untouched when an import fails', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'failed.duckdb'));
+    await store.set('keep', 'me');
+    await assert.rejects(store.importFrom(path.join(tmpDir, 'missing.parquet'), { mode: 'replace' }));
+    assert.strictEqual(await store.get('keep'), 'me');
+    await store.dispose();
+  });
+
+  it('requires a format when the extension is unknown', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'unknown.duckdb'));
+    await assert.rejects(store.exportTo(path.join(tmpDir, 'dump.bin')), /cannot infer file format/);
+    await store.dispose();
+  });
+});
@@ -139,6 +139,44 @@ describe('DuckDBStore Store', () => {
       assert.deepStrictEqual(keys, ['keyv:key1', 'keyv:key2', 'keyv:key3']);
     });
 
+    it('pages through results in iterationBatchSize batches', async () => {
+      const file = path.join(tmpDir, 'paged.duckdb');
+      const pagedStore = new KeyvDuckDB(file, { iterationBatchSize: 3 });
+      await pagedStore.setMany(Array.from({ length: 10 }, (_, i) => ({ key: `k${String(i).padStart(2, '0')}`, value: `v${i}` })));
+
+      const keys: string[] = [];
+      for await (const [key] of pagedStore.iterator()) {
+        keys.push(key);
+      }
+      assert.deepStrictEqual(
+        keys,
+        Array.from({ length: 10 }, (_, i) => `k${String(i).padStart(2, '0')}`)
+      );
+      await pagedStore.dispose();
+    });
+
+    it('stops fetching pages when iteration ends early', async () => {
+      const file = path.join(tmpDir, 'paged-break.duckdb');
+      const pagedStore = new KeyvDuckDB(file, { iterationBatchSize: 2 });
+      await pagedStore.setMany(Array.from({ length: 10 }, (_, i) => ({ key: `k${i}`, value: `v${i}` })));
+
+      // Count queries by wrapping the private all() helper
+      type StoreWithAll = { all: (...args: unknown[]) => Promise<unknown[]> };
+      const storeInternal = pagedStore as unknown as StoreWithAll;
+      const originalAll = storeInternal.all.bind(pagedStore);
+      let queries = 0;
+      storeInternal.all = (...args: unknown[]) => {
+        queries++;
+        return originalAll(...args);
+      };
+
+      for await (const [key] of pagedStore.iterator()) {
+        if (key === 'k2') break;
+      }
+      assert.strictEqual(queries, 2);
+      await pagedStore.dispose();
+    });
+
     it('returns true from set on success (direct store)', async () => {
       const file = path.join(tmpDir, 'direct-return.duckdb');
       const directStore = new KeyvDuckDB(file);
@@ -223,6 +261,145 @@ describe('DuckDBStore Store', () => {
     });
   });
 
+  describe('transactions', () => {
+    it('commits all writes when the callback succeeds', async () => {
+      const file = path.join(tmpDir, 'tx-commit.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      await directStore.set('token:old', 'old-secret');
+
+      const result = await directStore.transaction(async (tx) => {
+        await tx.set('token:new', 'new-secret');
+        assert.strictEqual(await tx.get('token:new'), 'new-secret');
+        assert.strictEqual(await tx.delete('token:old'), true);
+        assert.strictEqual(await tx.has('token:old'), false);
+        return 'rotated';
+      });
+
+      assert.strictEqual(result, 'rotated');
+      assert.strictEqual(await directStore.get('token:new'), 'new-secret');
+      assert.strictEqual(await directStore.has('token:old'), false);
+      await directStore.dispose();
+    });
+
+    it('rolls back all writes when the callback throws', async () => {
+      const file = path.join(tmpDir, 'tx-rollback.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      await directStore.set('token:old', 'old-secret');
+
+      await assert.rejects(
+        directStore.transaction(async (tx) => {
+          await tx.set('token:new', 'new-secret');
+          await tx.delete('token:old');
+          throw new Error('rotation failed');
+        }),
+        /rotation failed/
+      );
+
+      assert.strictEqual(await directStore.get('token:new'), undefined);
+      assert.strictEqual(await directStore.get('token:old'), 'old-secret');
+      await directStore.dispose();
+    });
+
+    it('serializes with concurrent store operations', async () => {
+      const file = path.join(tmpDir, 'tx-serialized.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      await directStore.set('counter', '0');
+
+      const tx = directStore.transaction(async (t) => {
+        const value = Number(await t.get<string>('counter'));
+        await t.set('counter', String(value + 1));
+      });
+      const write = directStore.set('other', 'value');
+      await Promise.all([tx, write]);
+
+      assert.strictEqual(await directStore.get('counter'), '1');
+      assert.strictEqual(await directStore.get('other'), 'value');
+      await directStore.dispose();
+    });
+  });
+
+  describe('atomic operations', () => {
+    it('setIfAbsent writes only when the key is missing', async () => {
+      const file = path.join(tmpDir, 'set-if-absent.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      const results = await Promise.all(Array.from({ length: 10 }, (_, i) => directStore.setIfAbsent('lock', `owner${i}`)));
+      assert.strictEqual(results.filter(Boolean).length, 1);
+      assert.strictEqual(await directStore.get('lock'), `owner${results.indexOf(true)}`);
+      await directStore.dispose();
+    });
+
+    it('setIfAbsent replaces expired values', async () => {
+      const file = path.join(tmpDir, 'set-if-absent-expired.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      await directStore.set('lock', 'stale', 10);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      assert.strictEqual(await directStore.setIfAbsent('lock', 'fresh'), true);
+      assert.strictEqual(await directStore.get('lock'), 'fresh');
+      await directStore.dispose();
+    });
+
+    it('compareAndSet swaps only when the expected value matches', async () => {
+      const file = path.join(tmpDir, 'cas.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      await directStore.set('state', { version: 1 });
+      assert.strictEqual(await directStore.compareAndSet('state', { version: 2 }, { version: 3 }), false);
+      assert.strictEqual(await directStore.compareAndSet('state', { version: 1 }, { version: 2 }), true);
+      assert.strictEqual(await directStore.get('state'), JSON.stringify({ version: 2 }));
+      assert.strictEqual(await directStore.compareAndSet('missing', 'a', 'b'), false);
+      await directStore.dispose();
+    });
+
+    it('increment creates and updates counters atomically', async () => {
+      const file = path.join(tmpDir, 'increment.duckdb');
+      const directStore = new KeyvDuckDB(file);
+      await Promise.all(Array.from({ length: 20 }, () => directStore.increment('hits')));
+      assert.strictEqual(await directStore.get('hits'), '20');
+      assert.strictEqual(await directStore.increment('hits', -5), 15);
+      await assert.rejects(directStore.increment('hits', 1.5), /integer/);
+      await directStore.dispose();
+    });
+
+    it('stays atomic across two stores on the same file', async () => {
+      const file = path.join(tmpDir, 'two-stores.duckdb');
+      const stores = [new KeyvDuckDB(file), new KeyvDuckDB(file)];
+      const pick = (i: number) => stores[i % 2];
+
+      const claimed = await Promise.all(Array.from({ length: 20 }, (_, i) => pick(i).setIfAbsent('lock', `owner${i}`)));
+      assert.strictEqual(claimed.filter(Boolean).length, 1);
+
+      await stores[0].set('state', '0');
+      const swapped = await Promise.all(Array.from({ length: 20 }, (_, i) => pick(i).compareAndSet('state', '0', `v${i}`)));
+      assert.strictEqual(swapped.filter(Boolean).length, 1);
+
+      await Promise.all(Array.from({ length: 40 }, (_, i) => pick(i).increment('hits')));
+      assert.strictEqual(await stores[0].get('hits'), '40');
+
+      for (const store of stores) await store.dispose();
+    });
+
+    it('retries write conflicts between two stores on the same file', async () => {
+      const file = path.join(tmpDir, 'conflicts.duckdb');
+      const stores = [new KeyvDuckDB(file), new KeyvDuckDB(file)];
+      const values = Array.from({ length: 200 }, (_, i) => `v${i}`);
+
+      await Promise.all(values.map((value, i) => stores[i % 2].set('k', value)));
+      assert.ok(values.includes((await stores[0].get('k')) as string));
+
+      await Promise.all(
+        values.slice(0, 40).map((value, i) =>
+          stores[i % 2].setMany([
+            { key: 'k', value },
+            { key: 'other', value },
+          ])
+        )
+      );
+      await Promise.all(values.slice(0, 40).map((_, i) => stores[i % 2].delete('other')));
+      assert.strictEqual(await stores[1].get('other'), undefined);
+
+      for (const store of stores) await store.dispose();
+    });
+  });
+
   describe('clear operations', () => {
     it('removes all data', async () => {
       await store.set('key1', { a: 1 });
@@ -379,7 +556,62 @@ describe('DuckDBStore Store', () => {
     });
   });
 
+  describe('key scanning', () => {
+    async function seeded(): Promise<KeyvDuckDB> {
+      const scanStore = new KeyvDuckDB(':memory:');
+      await scanStore.setMany([
+        { key: 'user:1', value: 'a' },
+        { key: 'user:2', value: 'b' },
+        { key: 'user_1', value: 'c' },
+        { key: 'user%x', value: 'd' },
+        { key: 'post:1', value: 'e' },
+      ]);
+      return scanStore;
+    }
+
+    it('keys() filters by literal prefix', async () => {
+      const scanStore = await seeded();
+      assert.deepStrictEqual(await scanStore.keys({ prefix: 'user:' }), ['user:1', 'user:2']);
+      assert.deepStrictEqual(await scanStore.keys({ prefix: 'user_' }), ['user_1']);
+      assert.deepStrictEqual(await scanStore.keys({ prefix: 'user%' }), ['user%x']);
+      await scanStore.dispose();
+    });
+
+    it('keys() supports glob, ordering and pagination', async () => {
+      const scanStore = await seeded();
+      assert.deepStrictEqual(await scanStore.keys({ glob: '*:1' }), ['post:1', 'user:1']);
+      assert.deepStrictEqual(await scanStore.keys({ order: 'desc', limit: 2 }), ['user_1', 'user:2']);
+      assert.deepStrictEqual(await scanStore.keys({ limit: 2, offset: 1 }), ['user%x', 'user:1']);
+      await scanStore.dispose();
+    });
+
+    it('count() and deleteByPrefix() match literally', async () => {
+      const scanStore = await seeded();
+      assert.strictEqual(await scanStore.count(), 5);
+      assert.strictEqual(await scanStore.count({ prefix: 'user' }), 4);
+      assert.strictEqual(await scanStore.deleteByPrefix('user_'), 1);
+      assert.deepStrictEqual(await scanStore.keys({ prefix: 'user' }), ['user%x', 'user:1', 'user:2']);
+      await assert.rejects(scanStore.deleteByPrefix(''), /prefix required/);
+      await scanStore.dispose();
+    });
+  });
+
   describe('namespace support', () => {
+    it('clear() does not treat namespace characters as wildcards', async () => {
+      const store = new KeyvDuckDB(':memory:');
+
+      await store.set('my_ns:1', 'kept-out');
+      await store.set('myXns:1', 'other');
+
+      store.namespace = 'my_ns';
+      await store.clear();
+
+      assert.strictEqual(await store.get('my_ns:1'), undefined);
+      assert.strictEqual(await store.get('myXns:1'), 'other');
+
+      await store.dispose();
+    });
+
     it('clear() respects namespace filtering', async () => {
       const store = new KeyvDuckDB(':memory:');
 
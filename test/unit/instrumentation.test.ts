@@ -0,0 +1,137 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, KeyvDuckDBMetrics, type KeyvDuckDBOperationEvent } from 'keyv-duckdb';
+
+describe('DuckDBStore Instrumentation', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-instrumentation-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('reports each operation with keys, rows and timings', async () => {
+    const events: KeyvDuckDBOperationEvent[] = [];
+    const store = new KeyvDuckDB(path.join(tmpDir, 'events.duckdb'), { onOperation: (event) => events.push(event) });
+    await store.setMany([
+      { key: 'a', value: '1' },
+      { key: 'b', value: '2' },
+    ]);
+    await store.getMany(['a', 'b', 'missing']);
+    await store.delete('a');
+
+    assert.deepStrictEqual(
+      events.map(({ operation, keys, rows, attempt, error }) => ({ operation, keys, rows, attempt, error })),
+      [
+        { operation: 'setMany', keys: 2, rows: 2, attempt: 0, error: undefined },
+        { operation: 'getMany', keys: 3, rows: 2, attempt: 0, error: undefined },
+        { operation: 'delete', keys: 1, rows: 1, attempt: 0, error: undefined },
+      ]
+    );
+    assert.ok(events.every((event) => event.duration >= 0 && event.queueWait >= 0));
+    await store.dispose();
+  });
+
+  it('reports failed statements and retried attempts', async () => {
+    const events: KeyvDuckDBOperationEvent[] = [];
+    const store = new KeyvDuckDB(path.join(tmpDir, 'errors.duckdb'), { reconnect: { delay: 1 }, onOperation: (event) => events.push(event) });
+    await store.set('a', '1');
+    await store.set('n', 'not a number');
+    await assert.rejects(store.increment('n'));
+
+    await closeAllConnections();
+    assert.strictEqual(await store.get('a'), '1');
+
+    const failed = events.find((event) => event.operation === 'increment');
+    assert.ok(failed?.error instanceof Error);
+    assert.strictEqual(failed.rows, 0);
+    const gets = events.filter((event) => event.operation === 'get');
+    assert.deepStrictEqual(
+      gets.map((event) => [event.attempt, event.error !== undefined]),
+      [
+        [0, true],
+        [1, false],
+      ]
+    );
+    await store.dispose();
+  });
+
+  it('reports queue wait for concurrent operations', async () => {
+    const events: KeyvDuckDBOperationEvent[] = [];
+    const store = new KeyvDuckDB(path.join(tmpDir, 'queue.duckdb'), { onOperation: (event) => events.push(event) });
+    await store.set('a', '1');
+    await Promise.all(Array.from({ length: 10 }, () => store.get('a')));
+
+    const gets = events.filter((event) => event.operation === 'get');
+    assert.strictEqual(gets.length, 10);
+    assert.ok(gets[gets.length - 1].queueWait > 0);
+    await store.dispose();
+  });
+
+  it('reports hook errors as error events', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'hook.duckdb'), {
+      onOperation: () => {
+        throw new Error('hook failed');
+      },
+    });
+    const errors: Error[] = [];
+    store.on('error', (err) => errors.push(err));
+
+    assert.strictEqual(await store.set('a', '1'), true);
+    assert.strictEqual(await store.get('a'), '1');
+    assert.strictEqual(errors.length, 2);
+    assert.match(errors[0].message, /hook failed/);
+    await store.dispose();
+  });
+
+  it('collects counters and histograms with KeyvDuckDBMetrics', async () => {
+    const metrics = new KeyvDuckDBMetrics({ boundaries: [1000, 0] });
+    const store = new KeyvDuckDB(path.join(tmpDir, 'metrics.duckdb'), { onOperation: metrics.record });
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.get('a');
+    await store.getMany(['a', 'b', 'c']);
+
+    const snapshot = metrics.snapshot();
+    assert.deepStrictEqual(Object.keys(snapshot.operations).sort(), ['get', 'getMany', 'set']);
+    const set = snapshot.operations.set;
+    assert.strictEqual(set.calls, 2);
+    assert.strictEqual(set.errors, 0);
+    assert.strictEqual(set.keys, 2);
+    assert.strictEqual(set.rows, 2);
+    assert.deepStrictEqual(set.duration.boundaries, [0, 1000]);
+    assert.strictEqual(
+      set.duration.counts.reduce((sum, count) => sum + count, 0),
+      2
+    );
+    assert.strictEqual(set.duration.count, 2);
+    assert.ok(set.duration.max >= set.duration.min && set.duration.sum >= set.duration.max);
+    assert.strictEqual(snapshot.operations.getMany.keys, 3);
+    assert.strictEqual(snapshot.operations.getMany.rows, 2);
+    assert.strictEqual(snapshot.total.calls, 4);
+
+    // Snapshots are copies
+    await store.get('b');
+    assert.strictEqual(snapshot.operations.get.calls, 1);
+    assert.strictEqual(metrics.snapshot().operations.get.calls, 2);
+
+    metrics.reset();
+    assert.deepStrictEqual(metrics.snapshot().operations, {});
+    assert.strictEqual(metrics.snapshot().total.calls, 0);
+    await store.dispose();
+  });
+});
@@ -0,0 +1,160 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import Keyv from 'keyv';
+import { closeAllConnections, KeyvDuckDB, SchemaError } from 'keyv-duckdb';
+
+describe('DuckDBStore JSON values', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-json-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function seed(store: KeyvDuckDB): Promise<void> {
+    await store.setMany([
+      { key: 'req:1', value: { status: 'ok', size: 120, cached: true, tag: null } },
+      { key: 'req:2', value: { status: 'failed', size: 4096, cached: false } },
+      { key: 'req:3', value: { status: 'ok', size: 2048, cached: false } },
+    ]);
+  }
+
+  describe('json column', () => {
+    it('stores values in a JSON column', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'json.duckdb'), { valueType: 'json' });
+      await store.set('a', { nested: { ok: true } });
+      assert.deepStrictEqual(JSON.parse((await store.get<string>('a')) ?? ''), { nested: { ok: true } });
+      await store.dispose();
+    });
+
+    it('rejects values that are not valid JSON', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'invalid.duckdb'), { valueType: 'json' });
+      await assert.rejects(store.set('a', 'not-json'), /JSON/);
+      await store.dispose();
+    });
+
+    it('works with values serialized by Keyv', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'keyv.duckdb'), { valueType: 'json' });
+      const keyv = new Keyv({ store });
+      await keyv.set('user', { name: 'Alice', role: 'admin' });
+      await keyv.set('other', { name: 'Bob', role: 'viewer' });
+      assert.deepStrictEqual(await keyv.get('user'), { name: 'Alice', role: 'admin' });
+
+      const matches = await store.query('$.value.role', 'admin');
+      assert.deepStrictEqual(
+        matches.map(([key]) => key),
+        ['keyv:user']
+      );
+      await store.dispose();
+    });
+
+    it("refuses valueType 'json' for a table created with TEXT values", async () => {
+      const file = path.join(tmpDir, 'text.duckdb');
+      const textStore = new KeyvDuckDB(file);
+      await textStore.set('a', 'plain');
+      await textStore.dispose();
+
+      const store = new KeyvDuckDB(file, { valueType: 'json' });
+      await assert.rejects(store.get('a'), (err: Error) => err instanceof SchemaError && /stores values as VARCHAR/.test(err.message));
+      await store.dispose();
+    });
+  });
+
+  describe('query()', () => {
+    it('matches equality on strings, numbers, booleans and null', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'equality.duckdb'), { valueType: 'json' });
+      await seed(store);
+
+      assert.deepStrictEqual(
+        (await store.query('$.status', 'ok')).map(([key]) => key),
+        ['req:1', 'req:3']
+      );
+      assert.deepStrictEqual(
+        (await store.query('$.size', 4096)).map(([key]) => key),
+        ['req:2']
+      );
+      assert.deepStrictEqual(
+        (await store.query('$.cached', true)).map(([key]) => key),
+        ['req:1']
+      );
+      assert.deepStrictEqual(
+        (await store.query('$.tag', null)).map(([key]) => key),
+        ['req:1']
+      );
+      await store.dispose();
+    });
+
+    it('supports ordering and exists operators', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'operators.duckdb'), { valueType: 'json' });
+      await seed(store);
+
+      assert.deepStrictEqual(
+        (await store.query('$.size', { op: '>=', value: 2048 })).map(([key]) => key),
+        ['req:2', 'req:3']
+      );
+      assert.deepStrictEqual(
+        (await store.query('$.status', { op: '!=', value: 'ok' })).map(([key]) => key),
+        ['req:2']
+      );
+      assert.deepStrictEqual(
+        (await store.query('$.tag', { op: 'exists' })).map(([key]) => key),
+        ['req:1']
+      );
+      await assert.rejects(store.query('$.cached', { op: '>', value: true }), /number or string/);
+      await store.dispose();
+    });
+
+    it('returns values alongside keys', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'values.duckdb'), { valueType: 'json' });
+      await seed(store);
+
+      const [[key, value]] = await store.query<string>('$.status', 'failed');
+      assert.strictEqual(key, 'req:2');
+      assert.deepStrictEqual(JSON.parse(value), { status: 'failed', size: 4096, cached: false });
+      await store.dispose();
+    });
+  });
+
+  describe('findWhere()', () => {
+    it('combines filters and applies a limit', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'find.duckdb'), { valueType: 'json' });
+      await seed(store);
+
+      const matches = await store.findWhere({ '$.status': 'ok', '$.size': { op: '>', value: 1000 } });
+      assert.deepStrictEqual(
+        matches.map(([key]) => key),
+        ['req:3']
+      );
+      assert.strictEqual((await store.findWhere({ '$.status': 'ok' }, { limit: 1 })).length, 1);
+      await assert.rejects(store.findWhere({}), /filter required/);
+      await store.dispose();
+    });
+
+    it('respects the instance namespace', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'namespace.duckdb'), { valueType: 'json' });
+      await store.set('a:1', { status: 'ok' });
+      await store.set('b:1', { status: 'ok' });
+      store.namespace = 'a';
+
+      assert.deepStrictEqual(
+        (await store.query('$.status', 'ok')).map(([key]) => key),
+        ['a:1']
+      );
+      await store.dispose();
+    });
+  });
+});
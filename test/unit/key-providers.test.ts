@@ -0,0 +1,121 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, EncryptionKeyError, envKeyProvider, fileKeyProvider, KeyvDuckDB } from 'keyv-duckdb';
+
+const KEY = 'provider_key_32_characters_minimum!';
+
+describe('DuckDBStore Encryption Key Providers', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-keys-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('resolves a function provider once when the store connects', async () => {
+    let calls = 0;
+    const file = path.join(tmpDir, 'function.duckdb');
+    const store = new KeyvDuckDB(file, {
+      encryptionKey: async () => {
+        calls++;
+        return KEY;
+      },
+    });
+    assert.strictEqual(calls, 0);
+    await Promise.all([store.set('a', '1'), store.set('b', '2')]);
+    assert.strictEqual(await store.get('a'), '1');
+    assert.strictEqual(calls, 1);
+    await store.dispose();
+
+    const reopened = new KeyvDuckDB(file, { encryptionKey: KEY });
+    assert.strictEqual(await reopened.get('b'), '2');
+    await reopened.dispose();
+  });
+
+  it('reads the key from an environment variable', async () => {
+    const file = path.join(tmpDir, 'env.duckdb');
+    process.env.KEYV_DUCKDB_TEST_KEY = KEY;
+    try {
+      const store = new KeyvDuckDB(file, { encryptionKey: envKeyProvider('KEYV_DUCKDB_TEST_KEY') });
+      await store.set('token', 'secret');
+      await store.dispose();
+    } finally {
+      delete process.env.KEYV_DUCKDB_TEST_KEY;
+    }
+
+    const reopened = new KeyvDuckDB(file, { encryptionKey: KEY });
+    assert.strictEqual(await reopened.get('token'), 'secret');
+    await reopened.dispose();
+
+    const missing = new KeyvDuckDB(file, { encryptionKey: envKeyProvider('KEYV_DUCKDB_TEST_KEY') });
+    await assert.rejects(missing.get('token'), (err: Error) => err instanceof EncryptionKeyError && /KEYV_DUCKDB_TEST_KEY/.test(err.message));
+    await missing.dispose();
+  });
+
+  it('reads the key from a file', async () => {
+    const keyFile = path.join(tmpDir, 'store.key');
+    await fs.writeFile(keyFile, `${KEY}\n`);
+    const file = path.join(tmpDir, 'file.duckdb');
+
+    const store = new KeyvDuckDB(file, { encryptionKey: fileKeyProvider(keyFile) });
+    await store.set('token', 'secret');
+    await store.dispose();
+
+    const reopened = new KeyvDuckDB(file, { encryptionKey: KEY });
+    assert.strictEqual(await reopened.get('token'), 'secret');
+    await reopened.dispose();
+  });
+
+  it('wraps provider failures in EncryptionKeyError', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'failing.duckdb'), {
+      encryptionKey: {
+        getKey() {
+          throw new Error('vault unavailable');
+        },
+      },
+    });
+    await assert.rejects(store.get('token'), (err: EncryptionKeyError) => err instanceof EncryptionKeyError && err.code === 'ERR_KEYV_DUCKDB_ENCRYPTION_KEY' && /vault unavailable/.test(err.message));
+    await store.dispose();
+  });
+
+  it('accepts quotes in the key and path', async () => {
+    const file = path.join(tmpDir, "it's.duckdb");
+    const key = "it's_a_key_with_'quotes'_32_chars!";
+    const store = new KeyvDuckDB(file, { encryptionKey: key });
+    await store.set('token', 'secret');
+    await store.dispose();
+
+    const reopened = new KeyvDuckDB(file, { encryptionKey: key });
+    assert.strictEqual(await reopened.get('token'), 'secret');
+    await reopened.dispose();
+  });
+
+  it('reports a wrong or missing key as EncryptionKeyError', async () => {
+    const file = path.join(tmpDir, 'mismatch.duckdb');
+    const store = new KeyvDuckDB(file, { encryptionKey: KEY });
+    await store.set('token', 'secret');
+    await store.dispose();
+
+    const wrongKey = new KeyvDuckDB(file, { encryptionKey: 'wrong_key_32_characters_minimum!!' });
+    await assert.rejects(wrongKey.get('token'), EncryptionKeyError);
+    await wrongKey.dispose();
+
+    const noKey = new KeyvDuckDB(file);
+    await assert.rejects(noKey.get('token'), EncryptionKeyError);
+    await noKey.dispose();
+  });
+});
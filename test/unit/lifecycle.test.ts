@@ -63,6 +63,46 @@ describe('DuckDBStore Lifecycle Management', () => {
       await store2.dispose();
     });
 
+    it('shares one instance between stores on the same file', async () => {
+      const dbPath = path.join(tmpDir, 'shared.duckdb');
+
+      const store1 = new KeyvDuckDB(dbPath, { table: 'first' });
+      const store2 = new KeyvDuckDB(dbPath, { table: 'second' });
+      await store1.set('key', 'one');
+      await store2.set('key', 'two');
+
+      assert.deepStrictEqual(getConnectionCount(true), { instances: 1, connections: 2 });
+      assert.equal(await store1.get('key'), 'one');
+      assert.equal(await store2.get('key'), 'two');
+
+      // Instance stays open until the last store releases it
+      await store1.dispose();
+      assert.deepStrictEqual(getConnectionCount(true), { instances: 1, connections: 1 });
+      assert.equal(await store2.get('key'), 'two');
+
+      await store2.dispose();
+      assert.deepStrictEqual(getConnectionCount(true), { instances: 0, connections: 0 });
+
+      // File lock is released, so the data can be reopened
+      const store3 = new KeyvDuckDB(dbPath, { table: 'first' });
+      assert.equal(await store3.get('key'), 'one');
+      await store3.dispose();
+    });
+
+    it('shares an instance when stores connect concurrently', async () => {
+      const dbPath = path.join(tmpDir, 'concurrent.duckdb');
+
+      const store1 = new KeyvDuckDB(dbPath);
+      const store2 = new KeyvDuckDB(dbPath);
+      await Promise.all([store1.set('a', '1'), store2.set('b', '2')]);
+
+      assert.deepStrictEqual(getConnectionCount(true), { instances: 1, connections: 2 });
+      assert.equal(await store1.get('b'), '2');
+
+      await store1.dispose();
+      await store2.dispose();
+    });
+
     it('creates separate connections for different encryption keys', async () => {
       const dbPath1 = path.join(tmpDir, 'encrypted1.duckdb');
       const dbPath2 = path.join(tmpDir, 'encrypted2.duckdb');
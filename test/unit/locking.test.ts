@@ -0,0 +1,163 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, DatabaseLockedError, getConnectionCount, KeyvDuckDB, ReadOnlyError } from 'keyv-duckdb';
+
+interface LockHolder {
+  /** Resolves once the child process has exited and released the file */
+  release(): Promise<void>;
+}
+
+/**
+ * Open the file in a child process and keep it open until released (or for holdFor milliseconds)
+ */
+async function holdLock(file: string, options: { readOnly?: boolean; holdFor?: number } = {}): Promise<LockHolder> {
+  const config = options.readOnly ? `, { access_mode: 'READ_ONLY' }` : '';
+  const script = `import { DuckDBInstance } from '@duckdb/node-api';
+const instance = await DuckDBInstance.create(${JSON.stringify(file)}${config});
+await instance.connect();
+console.log('ready');
+${options.holdFor ? `setTimeout(() => process.exit(0), ${options.holdFor});` : ''}
+process.stdin.on('end', () => process.exit(0)).resume();`;
+  const child = spawn(process.execPath, ['--input-type=module', '-e', script], { stdio: ['pipe', 'pipe', 'inherit'] });
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+  await new Promise((resolve, reject) => {
+    child.stdout.once('data', resolve);
+    child.once('exit', reject);
+  });
+  return {
+    release() {
+      child.stdin.end();
+      return exited;
+    },
+  };
+}
+
+describe('DuckDBStore Multi-Process Locking', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-locking-test-'));
+    dbPath = path.join(tmpDir, 'shared.duckdb');
+
+    const seed = new KeyvDuckDB(dbPath);
+    await seed.set('a', '1');
+    await seed.dispose();
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('retries until the other process releases the file', async () => {
+    const holder = await holdLock(dbPath, { holdFor: 300 });
+    try {
+      const store = new KeyvDuckDB(dbPath, { lock: { timeout: 10_000, retryDelay: 20 } });
+      await store.set('b', '2');
+      assert.strictEqual(await store.get('a'), '1');
+      await store.dispose();
+    } finally {
+      await holder.release();
+    }
+  });
+
+  it('gives up with DatabaseLockedError after the timeout', async () => {
+    const holder = await holdLock(dbPath);
+    try {
+      const store = new KeyvDuckDB(dbPath, { lock: { timeout: 200, retryDelay: 20 } });
+      const start = Date.now();
+      await assert.rejects(store.get('a'), (err: Error) => err instanceof DatabaseLockedError && /gave up after 200ms/.test(err.message));
+      assert.ok(Date.now() - start >= 200);
+      await store.dispose();
+    } finally {
+      await holder.release();
+    }
+  });
+
+  it('falls back to read-only when other processes are reading', async () => {
+    const holder = await holdLock(dbPath, { readOnly: true });
+    try {
+      const store = new KeyvDuckDB(dbPath, { lock: { fallbackToReadOnly: true } });
+      await assert.rejects(store.set('b', '2'), ReadOnlyError);
+      assert.strictEqual(store.isReadOnly, true);
+      assert.strictEqual(await store.get('a'), '1');
+      await assert.rejects(store.delete('a'), ReadOnlyError);
+      await store.dispose();
+    } finally {
+      await holder.release();
+    }
+  });
+
+  it('drops writes buffered before the store found out it is read-only', async () => {
+    const holder = await holdLock(dbPath, { readOnly: true });
+    try {
+      const store = new KeyvDuckDB(dbPath, { lock: { fallbackToReadOnly: true }, writeBuffer: { delay: 60_000 } });
+      const errors: unknown[] = [];
+      store.on('error', (error) => errors.push(error));
+      await store.set('b', '2');
+      const flushed = store.flush(); // Connects, falling back to read-only
+      await new Promise((resolve) => setImmediate(resolve));
+      await store.set('c', '3'); // Buffered while the flush is still connecting
+      await assert.rejects(flushed, ReadOnlyError);
+      assert.strictEqual(store.isReadOnly, true);
+
+      await store.dispose();
+      assert.ok(errors.length > 0 && errors.every((error) => error instanceof ReadOnlyError));
+    } finally {
+      await holder.release();
+    }
+  });
+
+  describe('openPerOperation', () => {
+    it('releases the file between operations', async () => {
+      const store = new KeyvDuckDB(dbPath, { openPerOperation: true });
+      await Promise.all([store.set('b', '2'), store.set('c', '3')]);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      assert.strictEqual(getConnectionCount(), 0);
+
+      // Another process can open the file for writing while the store is idle
+      const holder = await holdLock(dbPath);
+      await holder.release();
+
+      assert.deepStrictEqual(await store.getMany(['a', 'b', 'c']), ['1', '2', '3']);
+      await store.dispose();
+      assert.strictEqual(getConnectionCount(), 0);
+    });
+
+    it('keeps the file open for idleTimeout after the last operation', async () => {
+      const store = new KeyvDuckDB(dbPath, { openPerOperation: true, idleTimeout: 100 });
+      await store.set('b', '2');
+      assert.strictEqual(getConnectionCount(), 1);
+      await store.get('b');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      assert.strictEqual(getConnectionCount(), 0);
+      await store.dispose();
+    });
+
+    it('lets two stores in different processes take turns writing', async () => {
+      const store = new KeyvDuckDB(dbPath, { openPerOperation: true, lock: { timeout: 10_000 } });
+      await store.set('b', '2');
+      const holder = await holdLock(dbPath, { holdFor: 200 });
+      try {
+        // Waits for the other process instead of failing
+        await store.set('c', '3');
+        assert.strictEqual(await store.get('c'), '3');
+      } finally {
+        await holder.release();
+      }
+      await store.dispose();
+    });
+  });
+});
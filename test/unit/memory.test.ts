@@ -0,0 +1,95 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, getConnectionCount, KeyvDuckDB } from 'keyv-duckdb';
+
+const KEY = 'memory_key_32_characters_minimum!';
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+describe('DuckDBStore In-Memory and Temporary Databases', () => {
+  beforeEach(async () => {
+    await closeAllConnections();
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+  });
+
+  it('keeps ":memory:" stores in memory and separate from each other', async () => {
+    const first = new KeyvDuckDB(':memory:');
+    const second = new KeyvDuckDB({ path: ':memory:' });
+    await first.set('a', '1');
+    await second.set('a', '2');
+
+    assert.strictEqual(await first.get('a'), '1');
+    assert.strictEqual(await second.get('a'), '2');
+    assert.deepStrictEqual(getConnectionCount(true), { instances: 2, connections: 2 });
+    assert.strictEqual(await exists(':memory:'), false);
+    assert.strictEqual((await first.stats()).fileBytes, 0);
+
+    await first.dispose();
+    await second.dispose();
+    assert.strictEqual(getConnectionCount(), 0);
+  });
+
+  it('supports an encryption key for ":memory:" stores', async () => {
+    const store = new KeyvDuckDB(':memory:', { encryptionKey: KEY });
+    await store.set('a', '1');
+    assert.strictEqual(await store.get('a'), '1');
+    assert.strictEqual((await store.stats()).encrypted, true);
+    await store.dispose();
+  });
+
+  it('rejects options that need a file', () => {
+    assert.throws(() => new KeyvDuckDB(':memory:', { readOnly: true }), /readOnly cannot be used with an in-memory database/);
+    assert.throws(() => new KeyvDuckDB(':memory:', { openPerOperation: true }), /openPerOperation/);
+    assert.throws(() => new KeyvDuckDB({ temporary: true, readOnly: true }), /readOnly cannot be used with a temporary database/);
+    assert.throws(() => new KeyvDuckDB({ path: 'cache.duckdb', temporary: true }), /temporary cannot be combined with path/);
+  });
+
+  it('deletes a temporary file and its WAL on dispose', async () => {
+    const store = new KeyvDuckDB({ temporary: true });
+    const file = store.opts.url as string;
+    assert.strictEqual(path.dirname(file), os.tmpdir());
+
+    await store.set('a', '1');
+    assert.strictEqual(await store.get('a'), '1');
+    assert.strictEqual(await exists(file), true);
+
+    await store.dispose();
+    assert.strictEqual(await exists(file), false);
+    assert.strictEqual(await exists(`${file}.wal`), false);
+  });
+
+  it('gives each temporary store its own file', async () => {
+    const first = new KeyvDuckDB({ temporary: true });
+    const second = new KeyvDuckDB({ temporary: true });
+    assert.notStrictEqual(first.opts.url, second.opts.url);
+    await first.set('a', '1');
+    assert.strictEqual(await second.get('a'), undefined);
+    await first.dispose();
+    await second.dispose();
+  });
+
+  it('deletes an encrypted temporary file on dispose', async () => {
+    const store = new KeyvDuckDB({ temporary: true, encryptionKey: KEY });
+    const file = store.opts.url as string;
+    await store.set('a', '1');
+    await store.transaction(async (tx) => {
+      await tx.set('b', '2');
+    });
+    assert.strictEqual(await store.get('b'), '2');
+    assert.ok(await exists(file));
+
+    await store.dispose();
+    assert.strictEqual(await exists(file), false);
+    assert.strictEqual(await exists(`${file}.wal`), false);
+  });
+});
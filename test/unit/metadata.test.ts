@@ -0,0 +1,136 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBEntry } from 'keyv-duckdb';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('DuckDBStore Entry Metadata', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-metadata-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('records created and updated timestamps', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'timestamps.duckdb'));
+    const before = Date.now();
+    await store.set('a', '1', 60_000);
+    const created = await store.getWithMeta<string>('a');
+    assert.ok(created);
+    assert.strictEqual(created.value, '1');
+    assert.ok(created.createdAt !== null && created.createdAt >= before);
+    assert.strictEqual(created.updatedAt, created.createdAt);
+    assert.ok(created.expiresAt !== null && created.expiresAt >= before + 60_000);
+    assert.strictEqual(created.lastAccessedAt, null);
+    assert.strictEqual(created.hitCount, 0);
+
+    await sleep(5);
+    await store.setMany([{ key: 'a', value: '2' }]);
+    const updated = await store.getWithMeta<string>('a');
+    assert.ok(updated?.updatedAt && created.updatedAt);
+    assert.strictEqual(updated.value, '2');
+    assert.strictEqual(updated.createdAt, created.createdAt);
+    assert.ok(updated.updatedAt > created.updatedAt);
+    assert.strictEqual(updated.expiresAt, null);
+
+    assert.strictEqual(await store.getWithMeta('missing'), undefined);
+    await store.dispose();
+  });
+
+  it('starts over when an expired entry is written again', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'expired.duckdb'), { trackAccess: true });
+    await store.set('a', '1', 20);
+    await store.get('a');
+    const first = await store.getWithMeta('a');
+    await sleep(40);
+    await store.set('a', '2');
+
+    const entry = await store.getWithMeta('a');
+    assert.ok(entry?.createdAt && first?.createdAt);
+    assert.ok(entry.createdAt > first.createdAt);
+    assert.strictEqual(entry.hitCount, 0);
+    assert.strictEqual(entry.lastAccessedAt, null);
+    await store.dispose();
+  });
+
+  it('tracks reads when trackAccess is enabled', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'access.duckdb'), { trackAccess: true });
+    await store.setMany([
+      { key: 'a', value: '1' },
+      { key: 'b', value: '2' },
+    ]);
+    assert.strictEqual(await store.get('a'), '1');
+    assert.deepStrictEqual(await store.getMany(['a', 'b', 'missing']), ['1', '2', undefined]);
+
+    const a = await store.getWithMeta('a');
+    const b = await store.getWithMeta('b');
+    assert.strictEqual(a?.hitCount, 2);
+    assert.strictEqual(b?.hitCount, 1);
+    assert.ok(a.lastAccessedAt !== null && a.createdAt !== null && a.lastAccessedAt >= a.createdAt);
+
+    // Updating the value keeps the access statistics
+    await store.set('a', '3');
+    assert.strictEqual((await store.getWithMeta('a'))?.hitCount, 2);
+    await store.dispose();
+  });
+
+  it('never fails a read because another store is recording an access', async () => {
+    const file = path.join(tmpDir, 'contended.duckdb');
+    const stores = [new KeyvDuckDB(file, { trackAccess: true }), new KeyvDuckDB(file, { trackAccess: true })];
+    await stores[0].set('hot', 'value');
+
+    const reads = await Promise.all(Array.from({ length: 200 }, (_, i) => (i % 3 === 0 ? stores[i % 2].getMany<string>(['hot']).then(([value]) => value) : stores[i % 2].get<string>('hot'))));
+    assert.deepStrictEqual(new Set(reads), new Set(['value']));
+    assert.ok(((await stores[0].getWithMeta('hot'))?.hitCount ?? 0) > 0);
+    for (const store of stores) await store.dispose();
+  });
+
+  it('does not track reads by default', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'untracked.duckdb'));
+    await store.set('a', '1');
+    await store.get('a');
+    await store.getMany(['a']);
+    const entry = await store.getWithMeta('a');
+    assert.strictEqual(entry?.hitCount, 0);
+    assert.strictEqual(entry?.lastAccessedAt, null);
+    await store.dispose();
+  });
+
+  it('iterates entries with metadata', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'iterate.duckdb'), { iterationBatchSize: 2 });
+    await store.setMany([
+      { key: 'ns:a', value: '1' },
+      { key: 'ns:b', value: '2', ttl: 60_000 },
+      { key: 'ns:c', value: '3' },
+      { key: 'other:a', value: '4' },
+    ]);
+
+    const entries: KeyvDuckDBEntry<string>[] = [];
+    for await (const entry of store.iteratorWithMeta<string>('ns')) entries.push(entry);
+    assert.deepStrictEqual(
+      entries.map((entry) => [entry.key, entry.value, entry.expiresAt !== null]),
+      [
+        ['ns:a', '1', false],
+        ['ns:b', '2', true],
+        ['ns:c', '3', false],
+      ]
+    );
+    assert.ok(entries.every((entry) => entry.createdAt !== null && entry.hitCount === 0));
+    await store.dispose();
+  });
+});
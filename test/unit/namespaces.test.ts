@@ -0,0 +1,219 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import assert from 'assert';
+import Keyv from 'keyv';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBEvictEvent, type KeyvDuckDBNamespaceStrategy } from 'keyv-duckdb';
+
+async function query(file: string, sql: string): Promise<Record<string, unknown>[]> {
+  const instance = await DuckDBInstance.create(file);
+  const connection = await instance.connect();
+  try {
+    return (await connection.runAndReadAll(sql)).getRowObjects() as Record<string, unknown>[];
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+  }
+}
+
+describe('DuckDBStore Namespace Strategies', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-namespaces-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  for (const namespaceStrategy of ['prefix', 'column', 'table'] as KeyvDuckDBNamespaceStrategy[]) {
+    it(`separates Keyv namespaces with the ${namespaceStrategy} strategy`, async () => {
+      const file = path.join(tmpDir, `${namespaceStrategy}.duckdb`);
+      const usersStore = new KeyvDuckDB(file, { namespaceStrategy });
+      const users = new Keyv({ store: usersStore, namespace: 'users' });
+      const posts = new Keyv({ store: new KeyvDuckDB(file, { namespaceStrategy }), namespace: 'posts' });
+
+      await users.set('1', 'Alice');
+      await users.set('2', 'Bob');
+      await posts.set('1', 'Hello');
+      assert.strictEqual(await users.get('1'), 'Alice');
+      assert.strictEqual(await posts.get('1'), 'Hello');
+
+      const userKeys: string[] = [];
+      for await (const [key] of usersStore.iterator('users')) userKeys.push(key);
+      assert.deepStrictEqual(userKeys.sort(), ['users:1', 'users:2']);
+
+      await users.clear();
+      assert.strictEqual(await users.get('1'), undefined);
+      assert.strictEqual(await posts.get('1'), 'Hello');
+
+      await users.disconnect();
+      await posts.disconnect();
+    });
+  }
+
+  it('records the namespace of every row in the ns column', async () => {
+    const file = path.join(tmpDir, 'column.duckdb');
+    const store = new KeyvDuckDB(file, { namespaceStrategy: 'column' });
+    store.namespace = 'a:b';
+    await store.setMany([
+      { key: 'a:b:1', value: '1' },
+      { key: 'other:1', value: '2' },
+    ]);
+    await store.set('plain', '3');
+    assert.deepStrictEqual((await store.stats()).namespaces, { '': 1, 'a:b': 1, other: 1 });
+
+    // A namespace containing ':' still clears only its own rows
+    await store.clear();
+    assert.deepStrictEqual(await store.keys(), ['other:1', 'plain']);
+    await store.dispose();
+
+    assert.deepStrictEqual(await query(file, 'SELECT k, ns FROM keyv ORDER BY k'), [
+      { k: 'other:1', ns: 'other' },
+      { k: 'plain', ns: '' },
+    ]);
+  });
+
+  it('backfills the ns column when upgrading older files', async () => {
+    const file = path.join(tmpDir, 'upgrade.duckdb');
+    await query(file, `CREATE TABLE keyv (k TEXT PRIMARY KEY, v TEXT); INSERT INTO keyv VALUES ('users:1', 'Alice'), ('posts:1', 'Hello'), ('plain', 'x')`);
+
+    const store = new KeyvDuckDB(file, { namespaceStrategy: 'column' });
+    const keys: string[] = [];
+    for await (const [key] of store.iterator('users')) keys.push(key);
+    assert.deepStrictEqual(keys, ['users:1']);
+    await store.dispose();
+  });
+
+  for (const namespaceStrategy of ['prefix', 'column', 'table'] as KeyvDuckDBNamespaceStrategy[]) {
+    it(`covers every namespace without a store namespace with the ${namespaceStrategy} strategy`, async () => {
+      const file = path.join(tmpDir, `all-${namespaceStrategy}.duckdb`);
+      const store = new KeyvDuckDB(file, { namespaceStrategy });
+      await store.setMany([
+        { key: 'a:1', value: 'one' },
+        { key: 'b:1', value: 'two' },
+        { key: 'plain', value: 'three' },
+      ]);
+
+      assert.deepStrictEqual(await store.keys(), ['a:1', 'b:1', 'plain']);
+      assert.strictEqual(await store.count(), 3);
+      const entries: Array<[string, string]> = [];
+      for await (const entry of store.iterator<string>()) entries.push(entry);
+      assert.deepStrictEqual(entries, [
+        ['a:1', 'one'],
+        ['b:1', 'two'],
+        ['plain', 'three'],
+      ]);
+      assert.strictEqual(await store.exportTo(path.join(tmpDir, 'all.json')), 3);
+
+      assert.strictEqual(await store.deleteByPrefix('a:'), 1);
+      assert.deepStrictEqual(await store.keys(), ['b:1', 'plain']);
+      await store.clear();
+      assert.strictEqual(await store.count(), 0);
+      await store.dispose();
+    });
+  }
+
+  it('keeps each namespace in its own table with the table strategy', async () => {
+    const file = path.join(tmpDir, 'tables.duckdb');
+    const store = new KeyvDuckDB(file, { namespaceStrategy: 'table' });
+    await store.set('shared', 'base');
+    store.namespace = 'users';
+    await store.set('users:1', 'Alice');
+    store.namespace = 'Users';
+    await store.set('Users:1', 'Upper');
+    store.namespace = 'my-ns';
+    await store.set('my-ns:1', 'dash');
+
+    // Each table only sees its own keys
+    assert.deepStrictEqual(await store.keys(), ['my-ns:1']);
+    store.namespace = 'users';
+    assert.deepStrictEqual(await store.keys(), ['users:1']);
+    assert.strictEqual((await store.stats()).entries, 4); // stats() covers every table
+    store.namespace = undefined;
+    assert.deepStrictEqual(await store.keys(), ['Users:1', 'my-ns:1', 'shared', 'users:1']); // Without a namespace, every table
+
+    // iterator() reads another namespace's table
+    const entries: Array<[string, string]> = [];
+    for await (const entry of store.iterator<string>('Users')) entries.push(entry);
+    assert.deepStrictEqual(entries, [['Users:1', 'Upper']]);
+    await store.dispose();
+
+    const tables = await query(file, 'SELECT table_name, version FROM keyv_duckdb_schema ORDER BY table_name');
+    assert.deepStrictEqual(
+      tables.map((row) => row.table_name),
+      ['keyv', 'keyv___55_sers', 'keyv__my_2d_ns', 'keyv__users']
+    );
+  });
+
+  it('routes each key to its namespace table when Keyv instances share a store', async () => {
+    const file = path.join(tmpDir, 'shared.duckdb');
+    const store = new KeyvDuckDB(file, { namespaceStrategy: 'table' });
+    const users = new Keyv({ store, namespace: 'users' });
+    await users.set('1', 'Alice');
+    const posts = new Keyv({ store, namespace: 'posts' }); // Reassigns store.namespace
+
+    assert.strictEqual(await users.get('1'), 'Alice');
+    await users.set('2', 'Bob');
+    await posts.set('1', 'Hello');
+    assert.deepStrictEqual(await users.get(['1', '2', '3']), ['Alice', 'Bob', undefined]);
+    assert.strictEqual(await users.has('2'), true);
+    assert.strictEqual(await posts.get('1'), 'Hello');
+    assert.strictEqual(await users.delete('2'), true);
+
+    await store.setMany([
+      { key: 'users:3', value: 'Carol' },
+      { key: 'posts:2', value: 'World' },
+    ]);
+    assert.deepStrictEqual(await store.getMany(['users:3', 'posts:2', 'users:9']), ['Carol', 'World', undefined]);
+    await store.dispose();
+
+    assert.deepStrictEqual(await query(file, 'SELECT k FROM keyv__users ORDER BY k'), [{ k: 'users:1' }, { k: 'users:3' }]);
+    assert.deepStrictEqual(await query(file, 'SELECT k FROM keyv__posts ORDER BY k'), [{ k: 'posts:1' }, { k: 'posts:2' }]);
+  });
+
+  it('sweeps, evicts and reports over every namespace table with the table strategy', async () => {
+    const file = path.join(tmpDir, 'maintenance.duckdb');
+    const writer = new KeyvDuckDB(file, { namespaceStrategy: 'table' });
+    await writer.setMany([
+      { key: 'users:1', value: 'Alice' },
+      { key: 'users:2', value: 'gone', ttl: 1 },
+      { key: 'posts:1', value: 'Hello' },
+      { key: 'posts:2', value: 'gone', ttl: 1 },
+    ]);
+    await writer.dispose();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    // A store without a namespace sees both tables and does not create the base table
+    const store = new KeyvDuckDB(file, { namespaceStrategy: 'table' });
+    const stats = await store.stats();
+    assert.deepStrictEqual([stats.entries, stats.expiredEntries, stats.namespaces], [2, 2, { posts: 1, users: 1 }]);
+    assert.strictEqual(await store.sweep(), 2);
+    assert.strictEqual((await store.stats()).expiredEntries, 0);
+    await store.dispose();
+
+    const limited = new KeyvDuckDB(file, { namespaceStrategy: 'table', maxEntries: 2, evictionPolicy: 'fifo' });
+    const evicted = new Promise<KeyvDuckDBEvictEvent>((resolve) => limited.once('evict', resolve));
+    await limited.set('tags:1', 'new');
+    assert.deepStrictEqual((await evicted).keys, ['users:1']);
+    assert.deepStrictEqual((await limited.stats()).namespaces, { posts: 1, tags: 1 });
+    await limited.dispose();
+
+    const tables = await query(file, "SELECT table_name FROM duckdb_tables() WHERE table_name LIKE 'keyv%' ORDER BY table_name");
+    assert.deepStrictEqual(
+      tables.map((row) => row.table_name),
+      ['keyv__posts', 'keyv__tags', 'keyv__users', 'keyv_duckdb_schema']
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, DatabaseLockedError, getConnectionCount, KeyvDuckDB, ReadOnlyError, SchemaError } from 'keyv-duckdb';
+
+describe('DuckDBStore Read-Only Mode', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-readonly-test-'));
+    dbPath = path.join(tmpDir, 'cache.duckdb');
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function build(encryptionKey?: string): Promise<void> {
+    const writer = new KeyvDuckDB(dbPath, { encryptionKey });
+    await writer.setMany([
+      { key: 'a', value: '1' },
+      { key: 'b', value: '2' },
+    ]);
+    await writer.dispose();
+  }
+
+  it('reads entries written by another store', async () => {
+    await build();
+    const reader = new KeyvDuckDB(dbPath, { readOnly: true });
+    assert.strictEqual(await reader.get('a'), '1');
+    assert.deepStrictEqual(await reader.getMany(['a', 'b', 'c']), ['1', '2', undefined]);
+    assert.deepStrictEqual(await reader.keys(), ['a', 'b']);
+    await reader.dispose();
+    assert.strictEqual(getConnectionCount(), 0);
+  });
+
+  it('rejects writes with ReadOnlyError', async () => {
+    await build();
+    const reader = new KeyvDuckDB(dbPath, { readOnly: true });
+    await assert.rejects(reader.set('a', 'changed'), (err: ReadOnlyError) => err instanceof ReadOnlyError && err.code === 'ERR_KEYV_DUCKDB_READ_ONLY');
+    await assert.rejects(reader.delete('a'), ReadOnlyError);
+    await assert.rejects(reader.clear(), ReadOnlyError);
+    await assert.rejects(reader.setMany([{ key: 'c', value: '3' }]), ReadOnlyError);
+    await assert.rejects(reader.increment('n'), ReadOnlyError);
+    await assert.rejects(
+      reader.transaction((tx) => tx.set('a', 'changed')),
+      ReadOnlyError
+    );
+    assert.strictEqual(await reader.get('a'), '1');
+    await reader.dispose();
+  });
+
+  it('sees writes from a writer in the same process', async () => {
+    const writer = new KeyvDuckDB(dbPath);
+    await writer.set('a', '1');
+    const reader = new KeyvDuckDB(dbPath, { readOnly: true });
+    assert.strictEqual(await reader.get('a'), '1');
+
+    await writer.set('a', '2');
+    assert.strictEqual(await reader.get('a'), '2');
+    assert.strictEqual(reader.isReadOnly, true);
+    await assert.rejects(reader.set('a', '3'), ReadOnlyError);
+
+    await reader.dispose();
+    assert.strictEqual(await writer.get('a'), '2');
+    await writer.dispose();
+    assert.strictEqual(getConnectionCount(), 0);
+  });
+
+  it('opens encrypted databases read-only', async () => {
+    const key = 'readonly_key_32_characters_minimum!';
+    await build(key);
+    const reader = new KeyvDuckDB(dbPath, { encryptionKey: key, readOnly: true });
+    assert.strictEqual(await reader.get('b'), '2');
+    await assert.rejects(reader.set('b', 'changed'), ReadOnlyError);
+    await reader.dispose();
+  });
+
+  it('does not create the table', async () => {
+    const writer = new KeyvDuckDB(dbPath, { table: 'other' });
+    await writer.set('a', '1');
+    await writer.dispose();
+
+    const reader = new KeyvDuckDB(dbPath, { readOnly: true });
+    await assert.rejects(reader.get('a'), SchemaError);
+    await reader.dispose();
+  });
+
+  it('shares the file with another read-only process', async () => {
+    await build();
+    const holder = `import { DuckDBInstance } from '@duckdb/node-api';
+const instance = await DuckDBInstance.create(${JSON.stringify(dbPath)}, { access_mode: 'READ_ONLY' });
+await instance.connect();
+console.log('ready');
+process.stdin.on('end', () => process.exit(0)).resume();`;
+    const child = spawn(process.execPath, ['--input-type=module', '-e', holder], { stdio: ['pipe', 'pipe', 'inherit'] });
+    try {
+      await new Promise((resolve, reject) => {
+        child.stdout.once('data', resolve);
+        child.once('exit', reject);
+      });
+
+      const reader = new KeyvDuckDB(dbPath, { readOnly: true });
+      assert.strictEqual(await reader.get('a'), '1');
+      await reader.dispose();
+
+      const writer = new KeyvDuckDB(dbPath);
+      await assert.rejects(writer.get('a'), DatabaseLockedError);
+      await writer.dispose();
+    } finally {
+      child.stdin.end();
+      await new Promise((resolve) => child.once('exit', resolve));
+    }
+  });
+});
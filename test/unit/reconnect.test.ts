@@ -0,0 +1,89 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, getConnectionCount, KeyvDuckDB, type KeyvDuckDBReconnectEvent } from 'keyv-duckdb';
+
+describe('DuckDBStore Connection Recovery', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-reconnect-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('reconnects transparently after the connection is closed underneath it', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'recover.duckdb'), { reconnect: { delay: 1 } });
+    await store.set('a', '1');
+    const events: KeyvDuckDBReconnectEvent[] = [];
+    store.on('reconnect', (event) => events.push(event));
+
+    // Simulate a dead connection
+    await closeAllConnections();
+
+    assert.strictEqual(await store.get('a'), '1');
+    await store.set('b', '2');
+    assert.strictEqual(events.length, 1);
+    assert.match((events[0].error as Error).message, /disconnected/);
+    assert.strictEqual(getConnectionCount(), 1);
+    await store.dispose();
+    assert.strictEqual(getConnectionCount(), 0);
+  });
+
+  it('recovers once for concurrent operations', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'concurrent.duckdb'), { reconnect: { delay: 1 } });
+    await store.setMany([
+      { key: 'a', value: '1' },
+      { key: 'b', value: '2' },
+    ]);
+    let reconnects = 0;
+    store.on('reconnect', () => reconnects++);
+
+    await closeAllConnections();
+
+    const values = await Promise.all([store.get('a'), store.get('b'), store.has('a'), store.getMany(['a', 'b'])]);
+    assert.deepStrictEqual(values, ['1', '2', true, ['1', '2']]);
+    assert.strictEqual(reconnects, 1);
+    await store.dispose();
+  });
+
+  it('only reconnects on the next operation when retries is 0', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'no-retry.duckdb'), { reconnect: { retries: 0 } });
+    await store.set('a', '1');
+    await closeAllConnections();
+
+    await assert.rejects(store.get('a'), /disconnected/);
+    assert.strictEqual(await store.get('a'), '1');
+    await store.dispose();
+  });
+
+  it('does not re-run transaction callbacks', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'transaction.duckdb'));
+    await store.set('a', '1');
+
+    let calls = 0;
+    await assert.rejects(
+      store.transaction(async (tx) => {
+        calls++;
+        await closeAllConnections();
+        return tx.get('a');
+      }),
+      /disconnected/
+    );
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(await store.get('a'), '1');
+    await store.dispose();
+  });
+});
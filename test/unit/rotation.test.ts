@@ -0,0 +1,120 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB } from 'keyv-duckdb';
+
+const OLD_KEY = 'old_key_32_characters_minimum_len!';
+const NEW_KEY = 'new_key_32_characters_minimum_len!';
+
+describe('DuckDBStore Encryption Key Rotation', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-rotation-test-'));
+    dbPath = path.join(tmpDir, 'tokens.duckdb');
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function write(encryptionKey?: string): Promise<void> {
+    const store = new KeyvDuckDB(dbPath, { encryptionKey });
+    await store.set('token', 'secret');
+    await store.dispose();
+  }
+
+  async function read(encryptionKey?: string): Promise<string | undefined> {
+    const store = new KeyvDuckDB(dbPath, { encryptionKey });
+    try {
+      return await store.get<string>('token');
+    } finally {
+      await store.dispose();
+    }
+  }
+
+  async function leftovers(): Promise<string[]> {
+    return (await fs.readdir(tmpDir)).filter((name) => name !== 'tokens.duckdb');
+  }
+
+  it('encrypts an unencrypted database in place', async () => {
+    await write();
+    await KeyvDuckDB.encryptDatabase(dbPath, NEW_KEY);
+    assert.strictEqual(await read(NEW_KEY), 'secret');
+    await assert.rejects(read());
+  });
+
+  it('decrypts an encrypted database in place', async () => {
+    await write(OLD_KEY);
+    await KeyvDuckDB.decryptDatabase(dbPath, OLD_KEY);
+    assert.strictEqual(await read(), 'secret');
+  });
+
+  it('rotates to a new key', async () => {
+    await write(OLD_KEY);
+    await KeyvDuckDB.rotateKey(dbPath, OLD_KEY, NEW_KEY);
+    assert.strictEqual(await read(NEW_KEY), 'secret');
+    await assert.rejects(read(OLD_KEY));
+  });
+
+  it('leaves the original intact when rotation fails with the wrong key', async () => {
+    await write(OLD_KEY);
+    const before = await fs.readFile(dbPath);
+
+    await assert.rejects(KeyvDuckDB.rotateKey(dbPath, 'wrong_key_32_characters_minimum!!', NEW_KEY));
+
+    assert.deepStrictEqual(await fs.readFile(dbPath), before);
+    assert.deepStrictEqual(await leftovers(), []);
+    assert.strictEqual(await read(OLD_KEY), 'secret');
+  });
+
+  it('leaves the original intact when decrypting a database that is not encrypted', async () => {
+    await write();
+    const before = await fs.readFile(dbPath);
+
+    await assert.rejects(KeyvDuckDB.decryptDatabase(dbPath, OLD_KEY), /not encrypted/);
+
+    assert.deepStrictEqual(await fs.readFile(dbPath), before);
+    assert.deepStrictEqual(await leftovers(), []);
+    assert.strictEqual(await read(), 'secret');
+  });
+
+  it('leaves the original intact when rotation fails while writing the copy', async () => {
+    await write(OLD_KEY);
+    // A column default calling a macro cannot be created in the copy before the macro exists there,
+    // so COPY FROM DATABASE fails once the new file is already being written
+    const instance = await DuckDBInstance.create(':memory:');
+    const connection = await instance.connect();
+    await connection.run(`ATTACH '${dbPath}' AS db (ENCRYPTION_KEY '${OLD_KEY}')`);
+    await connection.run('CREATE MACRO db.one() AS 1; CREATE TABLE db.counters (n INTEGER DEFAULT one())');
+    await connection.run('DETACH db');
+    connection.closeSync();
+    instance.closeSync();
+    const before = await fs.readFile(dbPath);
+
+    await assert.rejects(KeyvDuckDB.rotateKey(dbPath, OLD_KEY, NEW_KEY), /one/);
+
+    assert.deepStrictEqual(await fs.readFile(dbPath), before);
+    assert.deepStrictEqual(await leftovers(), []);
+    assert.strictEqual(await read(OLD_KEY), 'secret');
+  });
+
+  it('refuses to rewrite a database that a store has open', async () => {
+    const store = new KeyvDuckDB(dbPath);
+    await store.set('token', 'secret');
+    await assert.rejects(KeyvDuckDB.encryptDatabase(dbPath, NEW_KEY), /is open/);
+    await store.dispose();
+  });
+});
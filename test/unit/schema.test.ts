@@ -0,0 +1,123 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, SCHEMA_VERSION, SchemaError } from 'keyv-duckdb';
+
+/**
+ * Statements that reproduce database files written by earlier releases of the adapter
+ */
+const fixtures: Record<string, string[]> = {
+  // 0.1.x: key-value table only
+  '0.1.9': ['CREATE TABLE keyv (k TEXT PRIMARY KEY, v TEXT)', `INSERT INTO keyv VALUES ('old', 'value')`],
+  // Native TTL, before schema versioning
+  'unversioned-ttl': ['CREATE TABLE keyv (k TEXT PRIMARY KEY, v TEXT, expires BIGINT)', 'CREATE INDEX keyv_expires_idx ON keyv (expires)', `INSERT INTO keyv VALUES ('old', 'value', NULL)`],
+};
+
+async function execute(file: string, statements: string[]): Promise<Record<string, unknown>[]> {
+  const instance = await DuckDBInstance.create(file);
+  const connection = await instance.connect();
+  try {
+    let rows: Record<string, unknown>[] = [];
+    for (const sql of statements) rows = (await connection.runAndReadAll(sql)).getRowObjects() as Record<string, unknown>[];
+    return rows;
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+  }
+}
+
+describe('DuckDBStore Schema Versioning', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-schema-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function recordedVersions(file: string): Promise<Record<string, unknown>[]> {
+    return execute(file, ['SELECT table_name, version FROM keyv_duckdb_schema ORDER BY table_name']);
+  }
+
+  it('records the current version for new tables', async () => {
+    const file = path.join(tmpDir, 'new.duckdb');
+    const store = new KeyvDuckDB(file);
+    await store.set('a', '1');
+    await store.dispose();
+
+    assert.deepStrictEqual(await recordedVersions(file), [{ table_name: 'keyv', version: SCHEMA_VERSION }]);
+  });
+
+  for (const [release, statements] of Object.entries(fixtures)) {
+    it(`upgrades files written by ${release}`, async () => {
+      const file = path.join(tmpDir, `${release}.duckdb`);
+      await execute(file, statements);
+
+      const store = new KeyvDuckDB(file);
+      assert.strictEqual(await store.get('old'), 'value');
+      await store.set('new', 'value', 60_000);
+      assert.strictEqual(await store.get('new'), 'value');
+      await store.dispose();
+
+      assert.deepStrictEqual(await recordedVersions(file), [{ table_name: 'keyv', version: SCHEMA_VERSION }]);
+    });
+  }
+
+  it('tracks each table separately', async () => {
+    const file = path.join(tmpDir, 'tables.duckdb');
+    await execute(file, fixtures['0.1.9']);
+
+    const store = new KeyvDuckDB(file, { table: 'sessions' });
+    await store.set('a', '1');
+    await store.dispose();
+
+    // The legacy table is untouched until a store opens it
+    assert.deepStrictEqual(await recordedVersions(file), [{ table_name: 'sessions', version: SCHEMA_VERSION }]);
+  });
+
+  it('refuses to open tables written by a newer release', async () => {
+    const file = path.join(tmpDir, 'newer.duckdb');
+    const store = new KeyvDuckDB(file);
+    await store.set('a', '1');
+    await store.dispose();
+    await execute(file, [`UPDATE keyv_duckdb_schema SET version = ${SCHEMA_VERSION + 1}`]);
+
+    const reopened = new KeyvDuckDB(file);
+    await assert.rejects(reopened.get('a'), (err: Error) => err instanceof SchemaError && /newer than version/.test(err.message));
+    await reopened.dispose();
+
+    const reader = new KeyvDuckDB(file, { readOnly: true });
+    await assert.rejects(reader.get('a'), SchemaError);
+    await reader.dispose();
+  });
+
+  it('requires a read-write open before reading an old table read-only', async () => {
+    const file = path.join(tmpDir, 'readonly.duckdb');
+    await execute(file, fixtures['0.1.9']);
+
+    const reader = new KeyvDuckDB(file, { readOnly: true });
+    await assert.rejects(reader.get('old'), /open it read-write once/);
+    await reader.dispose();
+
+    const writer = new KeyvDuckDB(file);
+    await writer.get('old');
+    await writer.dispose();
+
+    const migrated = new KeyvDuckDB(file, { readOnly: true });
+    assert.strictEqual(await migrated.get('old'), 'value');
+    await migrated.dispose();
+  });
+});
@@ -0,0 +1,75 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, SCHEMA_VERSION } from 'keyv-duckdb';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('DuckDBStore Statistics', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-stats-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('reports zeros for an empty store', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'empty.duckdb'));
+    const stats = await store.stats();
+    assert.strictEqual(stats.entries, 0);
+    assert.strictEqual(stats.expiredEntries, 0);
+    assert.deepStrictEqual(stats.namespaces, {});
+    assert.strictEqual(stats.valueBytes, 0);
+    assert.strictEqual(stats.averageValueBytes, 0);
+    assert.strictEqual(stats.maxValueBytes, 0);
+    assert.strictEqual(stats.encrypted, false);
+    assert.strictEqual(stats.schemaVersion, SCHEMA_VERSION);
+    await store.dispose();
+  });
+
+  it('counts entries, namespaces and value sizes', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'counts.duckdb'));
+    await store.setMany([
+      { key: 'users:1', value: 'x'.repeat(10) },
+      { key: 'users:2', value: 'x'.repeat(30) },
+      { key: 'sessions:1', value: 'x'.repeat(20) },
+      { key: 'plain', value: 'x'.repeat(40) },
+    ]);
+    await store.set('users:3', 'expired', 10);
+    await sleep(20);
+
+    const stats = await store.stats();
+    assert.strictEqual(stats.entries, 4);
+    assert.strictEqual(stats.expiredEntries, 1);
+    assert.deepStrictEqual(stats.namespaces, { '': 1, sessions: 1, users: 2 });
+    assert.strictEqual(stats.valueBytes, 100);
+    assert.strictEqual(stats.averageValueBytes, 25);
+    assert.strictEqual(stats.maxValueBytes, 40);
+    await store.dispose();
+  });
+
+  it('reports file sizes on disk', async () => {
+    const file = path.join(tmpDir, 'files.duckdb');
+    const store = new KeyvDuckDB(file);
+    await store.set('a', '1');
+
+    const stats = await store.stats();
+    assert.strictEqual(stats.fileBytes, (await fs.stat(file)).size);
+    assert.ok(stats.fileBytes > 0);
+    assert.ok(stats.walBytes >= 0);
+    await store.dispose();
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import assert from 'assert';
+import Keyv from 'keyv';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBSweepResult } from 'keyv-duckdb';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('DuckDBStore TTL', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-ttl-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('expiry filtering', () => {
+    it('reports native ttl support', () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'support.duckdb'));
+      assert.strictEqual(store.ttlSupport, true);
+    });
+
+    it('hides expired entries from get, has and iterator', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'expiry.duckdb'));
+      await store.set('short', 'gone', 100);
+      await store.set('forever', 'kept');
+      assert.strictEqual(await store.get('short'), 'gone');
+
+      await sleep(150);
+      assert.strictEqual(await store.get('short'), undefined);
+      assert.strictEqual(await store.has('short'), false);
+      assert.deepStrictEqual(await store.hasMany(['short', 'forever']), [false, true]);
+      assert.deepStrictEqual(await store.getMany(['short', 'forever']), [undefined, 'kept']);
+
+      const keys: string[] = [];
+      for await (const [key] of store.iterator()) keys.push(key);
+      assert.deepStrictEqual(keys, ['forever']);
+      await store.dispose();
+    });
+
+    it('honors per-entry ttl in setMany', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'setmany.duckdb'));
+      await store.setMany([
+        { key: 'a', value: '1', ttl: 100 },
+        { key: 'b', value: '2' },
+      ]);
+      await sleep(150);
+      assert.deepStrictEqual(await store.getMany(['a', 'b']), [undefined, '2']);
+      await store.dispose();
+    });
+
+    it('reports expired keys as missing on delete', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'delete.duckdb'));
+      await store.set('short', 'gone', 100);
+      await sleep(150);
+      assert.strictEqual(await store.delete('short'), false);
+      await store.dispose();
+    });
+
+    it('expires values set through Keyv', async () => {
+      const keyv = new Keyv({ store: new KeyvDuckDB(path.join(tmpDir, 'keyv.duckdb')) });
+      await keyv.set('init', true); // Open the database before timing the ttl
+      await keyv.set('temp', { data: 1 }, 100);
+      assert.deepStrictEqual(await keyv.get('temp'), { data: 1 });
+      await sleep(150);
+      assert.strictEqual(await keyv.get('temp'), undefined);
+    });
+  });
+
+  describe('sweeping', () => {
+    it('sweep() deletes expired rows and emits a summary', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'sweep.duckdb'));
+      const results: KeyvDuckDBSweepResult[] = [];
+      store.on('sweep', (result) => results.push(result));
+
+      await store.set('a', '1', 10);
+      await store.set('b', '2', 10);
+      await store.set('c', '3');
+      await sleep(30);
+
+      assert.strictEqual(await store.sweep(), 2);
+      assert.strictEqual(results.length, 1);
+      assert.strictEqual(results[0].deleted, 2);
+      assert.strictEqual(await store.sweep(), 0);
+      await store.dispose();
+    });
+
+    it('sweeps periodically when sweepInterval is set', async () => {
+      const store = new KeyvDuckDB(path.join(tmpDir, 'interval.duckdb'), { sweepInterval: 20 });
+      await store.set('a', '1', 5);
+
+      const result = await new Promise<KeyvDuckDBSweepResult>((resolve) => {
+        store.on('sweep', (summary: KeyvDuckDBSweepResult) => {
+          if (summary.deleted > 0) resolve(summary);
+        });
+      });
+      assert.strictEqual(result.deleted, 1);
+      await store.dispose();
+    });
+  });
+
+  describe('migration', () => {
+    it('adds the expires column to tables created without it', async () => {
+      const dbPath = path.join(tmpDir, 'legacy.duckdb');
+      const instance = await DuckDBInstance.create(dbPath);
+      const connection = await instance.connect();
+      await connection.run('CREATE TABLE keyv (k TEXT PRIMARY KEY, v TEXT)');
+      await connection.run(`INSERT INTO keyv VALUES ('old', 'value')`);
+      connection.closeSync();
+      instance.closeSync();
+
+      const store = new KeyvDuckDB(dbPath);
+      assert.strictEqual(await store.get('old'), 'value');
+      await store.set('new', 'value', 100);
+      await sleep(150);
+      assert.strictEqual(await store.get('new'), undefined);
+      await store.dispose();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, ReadOnlyError } from 'keyv-duckdb';
+
+const KEY = 'url_key_32_characters_minimum!!!';
+
+describe('DuckDBStore Connection URLs', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-url-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    delete process.env.KEYV_DUCKDB_URL_TEST_KEY;
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('parses the path and parameters into options', async () => {
+    const file = path.join(tmpDir, 'url.duckdb');
+    const store = new KeyvDuckDB(`duckdb://${file}?table=cache&keySize=8&trackAccess=true`);
+    assert.strictEqual(store.opts.path, file);
+    assert.strictEqual(store.opts.table, 'cache');
+    assert.strictEqual(store.opts.keySize, 8);
+    assert.strictEqual(store.opts.trackAccess, true);
+
+    await store.set('a', '1');
+    await assert.rejects(store.set('a'.repeat(9), '1'), /exceeds maximum 8/);
+    await store.dispose();
+
+    const byTable = new KeyvDuckDB(file, { table: 'cache' });
+    assert.strictEqual(await byTable.get('a'), '1');
+    await byTable.dispose();
+  });
+
+  it('normalizes the URL so it parses back to the same options', () => {
+    const file = path.join(tmpDir, 'dir with space', 'a?b.duckdb');
+    const relative = path.relative(process.cwd(), file);
+    const store = new KeyvDuckDB({ url: `DuckDB://${encodeURIComponent(relative)}?valueType=json&readOnly=1&table=cache` });
+    assert.strictEqual(store.opts.path, file);
+    assert.strictEqual(store.opts.url, `duckdb://${encodeURI(file).replace('?', '%3F')}?table=cache&readOnly=true&valueType=json`);
+
+    const again = new KeyvDuckDB(store.opts.url as string);
+    assert.strictEqual(again.opts.url, store.opts.url);
+    assert.deepStrictEqual([again.opts.path, again.opts.table, again.opts.readOnly, again.opts.valueType], [file, 'cache', true, 'json']);
+  });
+
+  it('parses the namespace strategy', async () => {
+    const file = path.join(tmpDir, 'namespaces.duckdb');
+    const store = new KeyvDuckDB(`duckdb://${file}?namespaceStrategy=table`);
+    assert.strictEqual(store.opts.namespaceStrategy, 'table');
+    assert.strictEqual(store.opts.url, `duckdb://${file}?namespaceStrategy=table`);
+    store.namespace = 'users';
+    await store.set('users:1', 'Alice');
+    await store.dispose();
+
+    const byTable = new KeyvDuckDB(file, { namespaceStrategy: 'table' });
+    assert.strictEqual(await byTable.get('users:1'), 'Alice');
+    await byTable.dispose();
+
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?namespaceStrategy=schema'), /must be one of prefix, column, table/);
+  });
+
+  it('lets explicit options override URL parameters', async () => {
+    const file = path.join(tmpDir, 'override.duckdb');
+    const writer = new KeyvDuckDB(file);
+    await writer.set('a', '1');
+    await writer.dispose();
+
+    const store = new KeyvDuckDB(`duckdb://${file}?readOnly=true&table=other`, { table: 'keyv' });
+    assert.strictEqual(await store.get('a'), '1');
+    await assert.rejects(store.set('b', '2'), ReadOnlyError);
+    await store.dispose();
+  });
+
+  it('supports in-memory and temporary databases', async () => {
+    const memory = new KeyvDuckDB('duckdb://:memory:');
+    assert.strictEqual(memory.opts.url, 'duckdb://:memory:');
+    await memory.set('a', '1');
+    assert.strictEqual(await memory.get('a'), '1');
+    await memory.dispose();
+
+    const temporary = new KeyvDuckDB('duckdb://?temporary=true');
+    assert.strictEqual(temporary.opts.url, 'duckdb://?temporary=true');
+    await temporary.set('a', '1');
+    assert.strictEqual(await temporary.get('a'), '1');
+    await temporary.dispose();
+  });
+
+  it('reads the encryption key from the named environment variable', async () => {
+    process.env.KEYV_DUCKDB_URL_TEST_KEY = KEY;
+    const file = path.join(tmpDir, 'encrypted.duckdb');
+    const store = new KeyvDuckDB(`duckdb://${file}?encryptionKeyEnv=KEYV_DUCKDB_URL_TEST_KEY`);
+    await store.set('a', '1');
+    assert.strictEqual((await store.stats()).encrypted, true);
+    await store.dispose();
+
+    const reopened = new KeyvDuckDB(file, { encryptionKey: KEY });
+    assert.strictEqual(await reopened.get('a'), '1');
+    await reopened.dispose();
+  });
+
+  it('rejects unknown, repeated and malformed parameters', () => {
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?tabel=x'), /unknown duckdb URL parameter tabel/);
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?table=x&table=y'), /table is repeated/);
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?keySize=big'), /keySize must be a non-negative integer/);
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?readOnly=yes'), /readOnly must be true or false/);
+    assert.throws(() => new KeyvDuckDB('duckdb:///tmp/a.duckdb?evictionPolicy=random'), /must be one of lru, lfu, fifo/);
+    assert.throws(() => new KeyvDuckDB(`duckdb:///tmp/a.duckdb?encryptionKey=${KEY}`), /must not contain the encryption key/);
+    assert.throws(() => new KeyvDuckDB('duckdb:/tmp/a.duckdb'), /expected a duckdb:\/\/ URL/);
+  });
+});
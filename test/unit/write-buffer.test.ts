@@ -0,0 +1,114 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import assert from 'assert';
+import { closeAllConnections, KeyvDuckDB, type KeyvDuckDBOperationEvent } from 'keyv-duckdb';
+
+describe('DuckDBStore Write Buffer', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    await closeAllConnections();
+
+    const tmpParent = path.join(os.tmpdir(), '.tmp');
+    await fs.mkdir(tmpParent, { recursive: true });
+    tmpDir = await fs.mkdtemp(path.join(tmpParent, 'duckdb-write-buffer-test-'));
+  });
+
+  afterEach(async () => {
+    await closeAllConnections();
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('coalesces buffered writes into one flush', async () => {
+    const events: KeyvDuckDBOperationEvent[] = [];
+    const store = new KeyvDuckDB(path.join(tmpDir, 'flush.duckdb'), { writeBuffer: { delay: 60_000 }, onOperation: (event) => events.push(event) });
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.set('a', '3');
+    assert.deepStrictEqual(events, []);
+
+    await store.flush();
+    assert.deepStrictEqual(
+      events.map(({ operation, keys }) => ({ operation, keys })),
+      [{ operation: 'flush', keys: 2 }]
+    );
+    assert.deepStrictEqual(await store.getMany(['a', 'b']), ['3', '2']);
+    await store.dispose();
+  });
+
+  it('reads its own buffered writes', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'reads.duckdb'), { writeBuffer: { delay: 60_000 } });
+    await store.set('stored', 'x');
+    await store.flush();
+
+    await store.set('a', '1');
+    await store.set('short', '2', 1);
+    assert.strictEqual(await store.delete('stored'), true);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    assert.strictEqual(await store.get('a'), '1');
+    assert.strictEqual(await store.get('stored'), undefined);
+    assert.strictEqual(await store.get('short'), undefined);
+    assert.deepStrictEqual(await store.getMany(['a', 'stored', 'missing']), ['1', undefined, undefined]);
+    assert.deepStrictEqual(await store.hasMany(['a', 'stored', 'short']), [true, false, false]);
+    assert.strictEqual(await store.delete('stored'), false);
+
+    // Other operations see buffered writes because they flush first
+    assert.deepStrictEqual(await store.keys(), ['a']);
+    await store.dispose();
+  });
+
+  it('flushes after the delay and when the buffer is full', async () => {
+    const events: KeyvDuckDBOperationEvent[] = [];
+    const store = new KeyvDuckDB(path.join(tmpDir, 'triggers.duckdb'), { writeBuffer: { delay: 20, maxSize: 3 }, onOperation: (event) => events.push(event) });
+    await store.set('a', '1');
+    for (let waited = 0; events.length === 0 && waited < 2000; waited += 10) await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.deepStrictEqual(
+      events.map(({ operation, keys }) => ({ operation, keys })),
+      [{ operation: 'flush', keys: 1 }]
+    );
+
+    await store.set('b', '2');
+    await store.set('c', '3');
+    await store.delete('a'); // checks the table, then fills the buffer
+    assert.deepStrictEqual(
+      events.map(({ operation, keys }) => ({ operation, keys })),
+      [
+        { operation: 'flush', keys: 1 },
+        { operation: 'has', keys: 1 },
+        { operation: 'flush', keys: 3 },
+      ]
+    );
+    await store.dispose();
+  });
+
+  it('flushes on dispose', async () => {
+    const file = path.join(tmpDir, 'dispose.duckdb');
+    const store = new KeyvDuckDB(file, { writeBuffer: { delay: 60_000 } });
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.dispose();
+
+    const reopened = new KeyvDuckDB(file);
+    assert.deepStrictEqual(await reopened.getMany(['a', 'b']), ['1', '2']);
+    await reopened.dispose();
+  });
+
+  it('drops the writes of a failed flush', async () => {
+    const store = new KeyvDuckDB(path.join(tmpDir, 'failed.duckdb'), { valueType: 'json', writeBuffer: { delay: 60_000 } });
+    await store.set('bad', 'not json');
+    assert.strictEqual(await store.get('bad'), 'not json');
+    await assert.rejects(store.flush());
+
+    assert.strictEqual(await store.get('bad'), undefined);
+    await store.set('good', '{"ok":true}');
+    await store.flush();
+    assert.strictEqual(await store.get('good'), '{"ok":true}');
+    await store.dispose();
+  });
+});